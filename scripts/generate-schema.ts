@@ -0,0 +1,8 @@
+import { writeFileSync } from "node:fs"
+import { fileURLToPath } from "node:url"
+import { generateConfigSchema } from "../src/config/schema-generator.js"
+
+const SCHEMA_FILE = fileURLToPath(new URL("../src/config/schema.json", import.meta.url))
+
+writeFileSync(SCHEMA_FILE, `${JSON.stringify(generateConfigSchema(), null, 2)}\n`)
+console.log(`Wrote ${SCHEMA_FILE}`)
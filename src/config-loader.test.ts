@@ -0,0 +1,860 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { mkdirSync, writeFileSync, readFileSync, rmSync } from "node:fs"
+import { join } from "node:path"
+import {
+  loadConfig,
+  resolveConfig,
+  findNestedConfigFile,
+  loadNestedConfig,
+  DEFAULT_CONFIG,
+} from "./config/loader.js"
+import { NestedConfigResolverImpl, pathRelativeTo } from "./config/nested.js"
+import { migrateConfig, migrateConfigFiles, CURRENT_CONFIG_VERSION } from "./config/migrate.js"
+import { mergeConfigLayers, formatConfigPath } from "./config/merge.js"
+import { validateConfig, formatDiagnostic } from "./config/validate.js"
+import { stripJsonComments } from "./config/formats.js"
+import { CONFIG_SCHEMA } from "./config/schema.js"
+import { generateConfigSchema } from "./config/schema-generator.js"
+import { loadSkill } from "./skills/loader.js"
+
+describe("config-loader", () => {
+  const testDir = join(process.cwd(), ".test-config")
+  const projectDir = join(testDir, "project")
+  const homeDir = join(testDir, "home")
+  const originalHome = process.env.HOME
+
+  const writeJson = (path: string, data: unknown) => {
+    mkdirSync(join(path, ".."), { recursive: true })
+    writeFileSync(path, JSON.stringify(data))
+  }
+
+  const globalConfigPath = join(homeDir, ".config", "opencode", "preload-skills.json")
+  const projectConfigPath = join(projectDir, "preload-skills.json")
+  const opencodeConfigPath = join(projectDir, ".opencode", "preload-skills.json")
+  const localConfigPath = join(projectDir, ".opencode", "preload-skills.local.json")
+
+  beforeEach(() => {
+    mkdirSync(projectDir, { recursive: true })
+    mkdirSync(homeDir, { recursive: true })
+    process.env.HOME = homeDir
+  })
+
+  afterEach(() => {
+    process.env.HOME = originalHome
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  describe("resolveConfig", () => {
+    it("returns defaults when no config files exist", async () => {
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.config).toEqual(DEFAULT_CONFIG)
+      expect(resolved.layers).toEqual([])
+      expect(resolved.sources).toEqual({})
+    })
+
+    it("loads layers in precedence order", async () => {
+      writeJson(globalConfigPath, { maxTokens: 1000 })
+      writeJson(projectConfigPath, { maxTokens: 2000 })
+      writeJson(opencodeConfigPath, { maxTokens: 3000 })
+      writeJson(localConfigPath, { maxTokens: 4000 })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.layers.map((l) => l.name)).toEqual(["global", "project", "opencode", "local"])
+      expect(resolved.config.maxTokens).toBe(4000)
+      expect(resolved.sources.maxTokens).toEqual(["local"])
+    })
+
+    it("does not ignore the global config when the project has its own", async () => {
+      writeJson(globalConfigPath, { skills: ["team-standards"], debug: true })
+      writeJson(opencodeConfigPath, { skills: ["project-skill"] })
+
+      const config = await loadConfig(projectDir)
+
+      expect(config.skills).toEqual(["team-standards", "project-skill"])
+      expect(config.debug).toBe(true)
+    })
+
+    it("concatenates and de-duplicates arrays", async () => {
+      writeJson(globalConfigPath, {
+        skills: ["a", "b"],
+        conditionalSkills: [{ skill: "react", if: { packageHasDependency: "react" } }],
+      })
+      writeJson(opencodeConfigPath, {
+        skills: ["b", "c"],
+        conditionalSkills: [
+          { skill: "react", if: { packageHasDependency: "react" } },
+          { skill: "prisma", if: { fileExists: "prisma/schema.prisma" } },
+        ],
+      })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.config.skills).toEqual(["a", "b", "c"])
+      expect(resolved.config.conditionalSkills).toHaveLength(2)
+      expect(resolved.sources.skills).toEqual(["global", "opencode"])
+    })
+
+    it("deep-merges records", async () => {
+      writeJson(globalConfigPath, {
+        fileTypeSkills: { ".py": ["python"], ".ts": ["typescript"] },
+        skillSettings: { big: { useSummary: true } },
+      })
+      writeJson(projectConfigPath, {
+        fileTypeSkills: { ".ts": ["react"] },
+        skillSettings: { other: { useSummary: false } },
+      })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.config.fileTypeSkills).toEqual({
+        ".py": ["python"],
+        ".ts": ["typescript", "react"],
+      })
+      expect(resolved.config.skillSettings).toEqual({
+        big: { useSummary: true },
+        other: { useSummary: false },
+      })
+      expect(resolved.sources['fileTypeSkills[".py"]']).toEqual(["global"])
+      expect(resolved.sources['fileTypeSkills[".ts"]']).toEqual(["global", "project"])
+      expect(resolved.sources["skillSettings.other.useSummary"]).toEqual(["project"])
+    })
+
+    it("searches a higher layer's skillPaths first", async () => {
+      writeJson(globalConfigPath, { skillPaths: ["~/team-skills"] })
+      writeJson(opencodeConfigPath, { skillPaths: ["tools/ai/skills"] })
+      for (const dir of [join(homeDir, "team-skills"), join(projectDir, "tools", "ai", "skills")]) {
+        mkdirSync(join(dir, "react"), { recursive: true })
+        writeFileSync(join(dir, "react", "SKILL.md"), `---\ndescription: ${dir}\n---\nContent`)
+      }
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.config.skillPaths).toEqual(["tools/ai/skills", "~/team-skills"])
+      expect(resolved.sources.skillPaths).toEqual(["opencode", "global"])
+      expect(loadSkill("react", projectDir, undefined, resolved.config)?.description).toBe(
+        join(projectDir, "tools", "ai", "skills")
+      )
+    })
+
+    it("finds the local override next to the project config", async () => {
+      writeJson(projectConfigPath, { useSummaries: false })
+      writeJson(join(projectDir, "preload-skills.local.json"), { useSummaries: true })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.config.useSummaries).toBe(true)
+      expect(resolved.sources.useSummaries).toEqual(["local"])
+    })
+
+    it("skips malformed layers", async () => {
+      writeJson(globalConfigPath, { skills: ["global-skill"] })
+      mkdirSync(join(projectDir, ".opencode"), { recursive: true })
+      writeFileSync(opencodeConfigPath, "invalid json {{{")
+
+      const config = await loadConfig(projectDir)
+
+      expect(config.skills).toEqual(["global-skill"])
+    })
+  })
+
+  describe("config formats", () => {
+    const writeText = (path: string, text: string) => {
+      mkdirSync(join(path, ".."), { recursive: true })
+      writeFileSync(path, text)
+    }
+
+    it("loads JSONC with comments and trailing commas", async () => {
+      writeText(
+        join(projectDir, ".opencode", "preload-skills.jsonc"),
+        `{
+  // React components need the component guide
+  "pathPatterns": {
+    "src/components/**": ["react-components"], /* trailing comma */
+  },
+  "skills": ["a,]", "http://example.com"],
+}`
+      )
+
+      const config = await loadConfig(projectDir)
+
+      expect(config.pathPatterns).toEqual({ "src/components/**": ["react-components"] })
+      expect(config.skills).toEqual(["a,]", "http://example.com"])
+    })
+
+    it("loads YAML", async () => {
+      writeText(
+        join(projectDir, ".opencode", "preload-skills.yaml"),
+        `# Shared team setup
+skills:
+  - coding-standards
+fileTypeSkills:
+  ".ts,.tsx": [typescript]
+conditionalSkills:
+  - skill: react
+    if:
+      packageHasDependency: react
+maxTokens: 8000
+useMinification: aggressive
+`
+      )
+
+      const config = await loadConfig(projectDir)
+
+      expect(config.skills).toEqual(["coding-standards"])
+      expect(config.fileTypeSkills).toEqual({ ".ts,.tsx": ["typescript"] })
+      expect(config.conditionalSkills).toEqual([
+        { skill: "react", if: { packageHasDependency: "react" } },
+      ])
+      expect(config.maxTokens).toBe(8000)
+      expect(config.useMinification).toBe("aggressive")
+    })
+
+    it("reports YAML syntax errors with the line number", async () => {
+      writeText(join(projectDir, "preload-skills.yml"), "skills:\n  - a\n    - b\n")
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.diagnostics).toHaveLength(1)
+      expect(resolved.diagnostics[0]!.line).toBe(3)
+      expect(formatDiagnostic(resolved.diagnostics[0]!)).toContain("preload-skills.yml:3")
+    })
+
+    it("validates YAML configs like JSON ones", async () => {
+      writeText(join(projectDir, "preload-skills.yaml"), "useMinification: agressive\n")
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.diagnostics[0]!.path).toBe("useMinification")
+    })
+
+    it("loads a module config exporting an object", async () => {
+      writeText(
+        join(projectDir, ".opencode", "preload-skills.config.mjs"),
+        `export default { skills: ["from-module"], maxTokens: 500 }`
+      )
+
+      const config = await loadConfig(projectDir)
+
+      expect(config.skills).toEqual(["from-module"])
+      expect(config.maxTokens).toBe(500)
+    })
+
+    it("loads a TypeScript config exporting a function of the project directory", async () => {
+      writeText(
+        join(projectDir, "preload-skills.config.ts"),
+        `export default async (projectDir: string) => ({
+  skills: [projectDir.endsWith("project") ? "matched" : "unmatched"],
+})`
+      )
+
+      const config = await loadConfig(projectDir)
+
+      expect(config.skills).toEqual(["matched"])
+    })
+
+    it("prefers JSON over other formats in the same directory", async () => {
+      writeJson(join(projectDir, "preload-skills.json"), { skills: ["json"] })
+      writeText(join(projectDir, "preload-skills.yaml"), "skills: [yaml]\n")
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.config.skills).toEqual(["json"])
+      expect(resolved.layers).toHaveLength(1)
+    })
+
+    it("keeps error positions stable when stripping comments", () => {
+      const text = '{ /* c */ "a": 1, // x\n "b": [1,] }'
+      const stripped = stripJsonComments(text)
+
+      expect(stripped).toHaveLength(text.length)
+      expect(JSON.parse(stripped)).toEqual({ a: 1, b: [1] })
+    })
+  })
+
+  describe("validateConfig", () => {
+    it("accepts a valid config without diagnostics", () => {
+      const diagnostics = validateConfig(
+        {
+          skills: ["a"],
+          fileTypeSkills: { ".ts": ["ts"] },
+          conditionalSkills: [{ skill: "react", if: { packageHasDependency: "react" } }],
+          skillSettings: { a: { useSummary: true } },
+          injectionMethod: "chatMessage",
+          maxTokens: 1000,
+          useMinification: "aggressive",
+          strict: true,
+        },
+        "config.json"
+      )
+
+      expect(diagnostics).toEqual([])
+    })
+
+    it("reports unknown keys as warnings with a suggestion", () => {
+      const diagnostics = validateConfig({ skils: ["a"] }, "config.json")
+
+      expect(diagnostics).toEqual([
+        {
+          severity: "warning",
+          file: "config.json",
+          path: "skils",
+          message: 'Unknown option "skils". Did you mean "skills"?',
+        },
+      ])
+    })
+
+    it("reports wrong types with JSON paths", () => {
+      const diagnostics = validateConfig(
+        { skills: ["a", 42], fileTypeSkills: { ".ts": "typescript" }, debug: "yes" },
+        "config.json"
+      )
+
+      expect(diagnostics.map((d) => [d.severity, d.path])).toEqual([
+        ["error", "skills[1]"],
+        ["error", 'fileTypeSkills[".ts"]'],
+        ["error", "debug"],
+      ])
+    })
+
+    it("reports invalid enum values", () => {
+      const diagnostics = validateConfig(
+        { injectionMethod: "userMessage", useMinification: "agressive" },
+        "config.json"
+      )
+
+      expect(diagnostics[0]!.path).toBe("injectionMethod")
+      expect(diagnostics[1]!.path).toBe("useMinification")
+      expect(diagnostics[1]!.message).toContain('Did you mean "aggressive"?')
+    })
+
+    it("reports unknown condition keys", () => {
+      const diagnostics = validateConfig(
+        { conditionalSkills: [{ skill: "react", if: { packageHasDependancy: "react" } }] },
+        "config.json"
+      )
+
+      expect(diagnostics).toHaveLength(1)
+      expect(diagnostics[0]!.severity).toBe("error")
+      expect(diagnostics[0]!.path).toBe("conditionalSkills[0].if.packageHasDependancy")
+      expect(diagnostics[0]!.message).toContain('Did you mean "packageHasDependency"?')
+    })
+
+    it("accepts a $schema reference", () => {
+      const diagnostics = validateConfig(
+        { $schema: "./node_modules/opencode-plugin-preload-skills/dist/schema.json", skills: [] },
+        "config.json"
+      )
+
+      expect(diagnostics).toEqual([])
+    })
+
+    it("reports missing required keys and out-of-range numbers", () => {
+      const diagnostics = validateConfig(
+        { conditionalSkills: [{ if: { envVar: "CI" } }], maxTokens: 0 },
+        "config.json"
+      )
+
+      expect(diagnostics.map((d) => [d.path, d.message])).toEqual([
+        ["conditionalSkills[0].skill", 'Missing required key "skill"'],
+        ["maxTokens", "Expected a positive number, got number 0"],
+      ])
+    })
+
+    it("reports a non-object config", () => {
+      const diagnostics = validateConfig(["skills"], "config.json")
+
+      expect(diagnostics).toHaveLength(1)
+      expect(formatDiagnostic(diagnostics[0]!)).toBe(
+        "config.json: Expected the config to be an object, got an array"
+      )
+    })
+  })
+
+  describe("config diagnostics", () => {
+    it("collects diagnostics from every layer", async () => {
+      writeJson(globalConfigPath, { maxTokens: -5 })
+      writeJson(opencodeConfigPath, { useMinification: "agressive" })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.diagnostics.map((d) => d.file)).toEqual([globalConfigPath, opencodeConfigPath])
+      expect(resolved.config.maxTokens).toBeUndefined()
+      expect(resolved.config.useMinification).toBe(false)
+    })
+
+    it("reports unparseable files", async () => {
+      mkdirSync(join(projectDir, ".opencode"), { recursive: true })
+      writeFileSync(opencodeConfigPath, "invalid json {{{")
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.diagnostics).toHaveLength(1)
+      expect(resolved.diagnostics[0]!.message).toContain("Could not read config")
+    })
+
+    it("drops conditional skills with unknown condition keys", async () => {
+      writeJson(opencodeConfigPath, {
+        conditionalSkills: [
+          { skill: "react", if: { packageHasDependancy: "react" } },
+          { skill: "ci", if: { envVar: "CI" } },
+        ],
+      })
+
+      const config = await loadConfig(projectDir)
+
+      expect(config.conditionalSkills).toEqual([{ skill: "ci", if: { envVar: "CI" } }])
+    })
+
+    it("keeps string minification levels", async () => {
+      writeJson(opencodeConfigPath, { useMinification: "aggressive" })
+
+      expect((await loadConfig(projectDir)).useMinification).toBe("aggressive")
+    })
+  })
+
+  describe("opencode.json", () => {
+    const opencodeJsonPath = join(projectDir, "opencode.json")
+
+    it("reads options from the plugin entry", async () => {
+      writeJson(opencodeJsonPath, {
+        plugin: ["some-other-plugin", ["opencode-plugin-preload-skills@1.8.0", { skills: ["inline"], maxTokens: 500 }]],
+      })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.layers.map((l) => [l.name, l.path])).toEqual([["project-inline", opencodeJsonPath]])
+      expect(resolved.config.skills).toEqual(["inline"])
+      expect(resolved.config.maxTokens).toBe(500)
+    })
+
+    it("reads options from the preloadSkills section, which overrides the plugin entry", async () => {
+      writeFileSync(
+        join(projectDir, "opencode.jsonc"),
+        `{
+  // Registered with options
+  "plugin": [["opencode-plugin-preload-skills", { "maxTokens": 500, "skills": ["a"] }]],
+  "preloadSkills": { "maxTokens": 800, "skills": ["b"] },
+}`
+      )
+
+      const config = await loadConfig(projectDir)
+
+      expect(config.maxTokens).toBe(800)
+      expect(config.skills).toEqual(["a", "b"])
+    })
+
+    it("ranks opencode.json below the standalone config file in the same scope", async () => {
+      writeJson(join(homeDir, ".config", "opencode", "opencode.json"), { preloadSkills: { skills: ["global-inline"] } })
+      writeJson(globalConfigPath, { skills: ["global"] })
+      writeJson(opencodeJsonPath, { preloadSkills: { skills: ["project-inline"], maxTokens: 500 } })
+      writeJson(projectConfigPath, { maxTokens: 1000 })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.layers.map((l) => l.name)).toEqual(["global-inline", "global", "project-inline", "project"])
+      expect(resolved.config.skills).toEqual(["global-inline", "global", "project-inline"])
+      expect(resolved.config.maxTokens).toBe(1000)
+      expect(resolved.sources.skills).toEqual(["global-inline", "global", "project-inline"])
+    })
+
+    it("ignores opencode.json files without plugin options", async () => {
+      writeJson(opencodeJsonPath, { plugin: ["opencode-plugin-preload-skills"], model: "x" })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.layers).toEqual([])
+      expect(resolved.diagnostics).toEqual([])
+    })
+
+    it("reports problems with their path inside opencode.json", async () => {
+      writeJson(opencodeJsonPath, {
+        plugin: [["opencode-plugin-preload-skills", { maxTokens: "lots" }]],
+        preloadSkills: { extends: "./missing.json" },
+      })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.diagnostics.map((d) => [d.file, d.path])).toEqual([
+        [opencodeJsonPath, "plugin[0][1].maxTokens"],
+        [opencodeJsonPath, "preloadSkills.extends"],
+      ])
+    })
+  })
+
+  describe("extends", () => {
+    const presetPath = join(projectDir, "presets", "base.json")
+
+    it("merges a relative preset before the extending file", async () => {
+      writeJson(presetPath, { skills: ["team-standards"], maxTokens: 1000 })
+      writeJson(projectConfigPath, { extends: "./presets/base.json", skills: ["react"], maxTokens: 2000 })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.layers.map((l) => l.path)).toEqual([presetPath, projectConfigPath])
+      expect(resolved.config.skills).toEqual(["team-standards", "react"])
+      expect(resolved.config.maxTokens).toBe(2000)
+      expect(resolved.sources.skills).toEqual(["preset ./presets/base.json", "project"])
+    })
+
+    it("resolves preset paths without an extension", async () => {
+      writeFileSync(join(projectDir, "team.yaml"), "skills:\n  - team-standards\n")
+      writeJson(projectConfigPath, { extends: "./team" })
+
+      expect((await loadConfig(projectDir)).skills).toEqual(["team-standards"])
+    })
+
+    it("resolves presets from packages in node_modules", async () => {
+      const packageDir = join(projectDir, "node_modules", "@acme", "preload-skills-preset")
+      writeJson(join(packageDir, "package.json"), { name: "@acme/preload-skills-preset", preloadSkills: "preset.json" })
+      writeJson(join(packageDir, "preset.json"), { skills: ["acme-style"] })
+      writeJson(join(packageDir, "strict.json"), { strict: true })
+      writeJson(projectConfigPath, {
+        extends: ["@acme/preload-skills-preset", "@acme/preload-skills-preset/strict.json"],
+      })
+
+      const config = await loadConfig(projectDir)
+
+      expect(config.skills).toEqual(["acme-style"])
+      expect(config.strict).toBe(true)
+    })
+
+    it("applies nested presets in order", async () => {
+      writeJson(join(projectDir, "presets", "root.json"), { skills: ["root"] })
+      writeJson(presetPath, { extends: "./root.json", skills: ["base"] })
+      writeJson(projectConfigPath, { extends: "./presets/base.json", skills: ["project"] })
+
+      expect((await loadConfig(projectDir)).skills).toEqual(["root", "base", "project"])
+    })
+
+    it("applies a preset shared by several layers once", async () => {
+      writeJson(presetPath, { maxTokens: 1000 })
+      writeJson(projectConfigPath, { extends: "./presets/base.json", maxTokens: 2000 })
+      writeJson(opencodeConfigPath, { extends: "../presets/base.json" })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.layers.filter((l) => l.name === "preset")).toHaveLength(1)
+      expect(resolved.config.maxTokens).toBe(2000)
+    })
+
+    it("reports circular extends", async () => {
+      const otherPath = join(projectDir, "presets", "other.json")
+      writeJson(presetPath, { extends: "./other.json" })
+      writeJson(otherPath, { extends: "./base.json" })
+      writeJson(projectConfigPath, { extends: "./presets/base.json" })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.diagnostics).toHaveLength(1)
+      expect(resolved.diagnostics[0]).toMatchObject({ severity: "error", file: otherPath, path: "extends" })
+      expect(resolved.diagnostics[0]!.message).toBe(
+        `Circular extends: ${presetPath} → ${otherPath} → ${presetPath}`
+      )
+    })
+
+    it("reports presets that cannot be resolved", async () => {
+      writeJson(projectConfigPath, { extends: ["./missing.json", "@acme/missing"] })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.diagnostics.map((d) => d.path)).toEqual(["extends[0]", "extends[1]"])
+      expect(resolved.diagnostics[0]!.message).toContain('Cannot resolve preset "./missing.json"')
+      expect(resolved.diagnostics[1]!.message).toContain("package not found in node_modules")
+    })
+  })
+
+  describe("profiles", () => {
+    afterEach(() => {
+      delete process.env.PRELOAD_SKILLS_PROFILE
+    })
+
+    it("leaves the top-level config alone when no profile is selected", async () => {
+      writeJson(opencodeConfigPath, { maxTokens: 5000, profiles: { ci: { maxTokens: 1000 } } })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.profile).toBeUndefined()
+      expect(resolved.config.maxTokens).toBe(5000)
+      expect(resolved.config.profiles).toEqual({ ci: { maxTokens: 1000 } })
+    })
+
+    it("replaces top-level options with the selected profile's", async () => {
+      process.env.PRELOAD_SKILLS_PROFILE = "minimal"
+      writeJson(globalConfigPath, { profiles: { minimal: { useMinification: "aggressive" } } })
+      writeJson(opencodeConfigPath, {
+        skills: ["react", "testing"],
+        fileTypeSkills: { ".ts": ["typescript"] },
+        profiles: { minimal: { skills: ["react"] } },
+      })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.profile).toBe("minimal")
+      expect(resolved.config.skills).toEqual(["react"])
+      expect(resolved.config.useMinification).toBe("aggressive")
+      expect(resolved.config.fileTypeSkills).toEqual({ ".ts": ["typescript"] })
+      expect(resolved.sources.skills).toEqual(["profile minimal"])
+      expect(resolved.sources['fileTypeSkills[".ts"]']).toEqual(["opencode"])
+    })
+
+    it("warns about an unknown profile and falls back to the top-level config", async () => {
+      process.env.PRELOAD_SKILLS_PROFILE = "revew"
+      writeJson(opencodeConfigPath, { maxTokens: 5000, profiles: { review: { maxTokens: 1000 } } })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.profile).toBeUndefined()
+      expect(resolved.config.maxTokens).toBe(5000)
+      expect(resolved.diagnostics).toEqual([
+        expect.objectContaining({
+          severity: "warning",
+          file: "PRELOAD_SKILLS_PROFILE",
+          message: 'Unknown profile "revew". Available profiles: review',
+        }),
+      ])
+    })
+
+    it("warns about plugin-wide options unless the environment selects the profile", async () => {
+      writeJson(opencodeConfigPath, { profiles: { review: { hotReload: false, injectionMethod: "chatMessage" } } })
+
+      expect((await resolveConfig(projectDir)).diagnostics).toEqual([
+        {
+          severity: "warning",
+          file: opencodeConfigPath,
+          path: "profiles.review.hotReload",
+          message: '"hotReload" is plugin-wide, so it only applies when PRELOAD_SKILLS_PROFILE selects the profile',
+        },
+      ])
+
+      process.env.PRELOAD_SKILLS_PROFILE = "review"
+      expect((await resolveConfig(projectDir)).diagnostics).toEqual([])
+    })
+
+    it("validates profile options", () => {
+      const diagnostics = validateConfig(
+        { profiles: { ci: { maxTokens: "lots", profiles: {}, showToast: true }, broken: [] } },
+        "config.json"
+      )
+
+      expect(diagnostics.map((d) => [d.severity, d.path])).toEqual([
+        ["error", "profiles.ci.maxTokens"],
+        ["error", "profiles.ci.profiles"],
+        ["warning", "profiles.ci.showToast"],
+        ["error", "profiles.broken"],
+      ])
+      expect(diagnostics[2]!.message).toContain('Did you mean "showToasts"?')
+    })
+  })
+
+  describe("nested configs", () => {
+    const packageDir = join(projectDir, "packages", "web")
+
+    it("finds only data-format config files", () => {
+      mkdirSync(packageDir, { recursive: true })
+      writeFileSync(join(packageDir, "preload-skills.config.mjs"), "export default {}")
+      expect(findNestedConfigFile(packageDir)).toBeUndefined()
+
+      writeFileSync(join(packageDir, "preload-skills.yaml"), "fileTypeSkills: {}\n")
+      expect(findNestedConfigFile(packageDir)).toBe(join(packageDir, "preload-skills.yaml"))
+
+      writeJson(join(packageDir, "preload-skills.json"), {})
+      expect(findNestedConfigFile(packageDir)).toBe(join(packageDir, "preload-skills.json"))
+    })
+
+    it("keeps fileTypeSkills and pathPatterns and warns about other options", async () => {
+      const configPath = join(packageDir, "preload-skills.json")
+      writeJson(configPath, {
+        fileTypeSkills: { ".tsx": ["react"] },
+        pathPatterns: { "src/**": ["web"] },
+        skills: ["x"],
+      })
+
+      const { config, diagnostics } = await loadNestedConfig(configPath, projectDir)
+
+      expect(config).toEqual({ fileTypeSkills: { ".tsx": ["react"] }, pathPatterns: { "src/**": ["web"] } })
+      expect(diagnostics).toEqual([
+        expect.objectContaining({ severity: "warning", file: configPath, path: "skills" }),
+      ])
+    })
+
+    it("merges JSON presets and refuses module presets", async () => {
+      const configPath = join(packageDir, "preload-skills.json")
+      writeJson(join(projectDir, "shared.json"), { fileTypeSkills: { ".css": ["styles"] } })
+      writeFileSync(join(projectDir, "shared.mjs"), "export default { fileTypeSkills: { '.ts': ['ts'] } }")
+      writeJson(configPath, { extends: ["../../shared.json", "../../shared.mjs"] })
+
+      const { config, diagnostics } = await loadNestedConfig(configPath, projectDir)
+
+      expect(config.fileTypeSkills).toEqual({ ".css": ["styles"] })
+      expect(diagnostics).toEqual([
+        expect.objectContaining({
+          severity: "error",
+          file: configPath,
+          message: 'Cannot extend "../../shared.mjs": nested configs only extend JSON or YAML presets',
+        }),
+      ])
+    })
+
+    it("resolves the nearest nested config above a file", async () => {
+      const loads: string[] = []
+      writeJson(join(packageDir, "preload-skills.json"), { fileTypeSkills: { ".tsx": ["react"] } })
+      writeJson(join(packageDir, "src", "legacy", "preload-skills.json"), { fileTypeSkills: { ".js": ["legacy"] } })
+      const resolver = new NestedConfigResolverImpl(projectDir, (nested) => loads.push(nested.path))
+
+      const button = await resolver.find("packages/web/src/components/Button.tsx")
+      const old = await resolver.find(join(packageDir, "src", "legacy", "old.js"))
+      await resolver.find("packages/web/src/components/Input.tsx")
+
+      expect(button).toEqual({
+        dir: packageDir,
+        path: join(packageDir, "preload-skills.json"),
+        fileTypeSkills: { ".tsx": ["react"] },
+        pathPatterns: {},
+      })
+      expect(old?.fileTypeSkills).toEqual({ ".js": ["legacy"] })
+      expect(loads).toEqual([
+        join(packageDir, "preload-skills.json"),
+        join(packageDir, "src", "legacy", "preload-skills.json"),
+      ])
+      expect(resolver.getLoaded()).toHaveLength(2)
+    })
+
+    it("ignores the project root, .opencode, node_modules and files outside the project", async () => {
+      writeJson(join(projectDir, "node_modules", "pkg", "preload-skills.json"), { fileTypeSkills: {} })
+      writeJson(join(projectDir, ".opencode", "sub", "preload-skills.json"), { fileTypeSkills: {} })
+      const resolver = new NestedConfigResolverImpl(projectDir)
+
+      expect(await resolver.find("index.ts")).toBeNull()
+      expect(await resolver.find("node_modules/pkg/index.js")).toBeNull()
+      expect(await resolver.find(".opencode/sub/file.md")).toBeNull()
+      expect(await resolver.find(join(testDir, "elsewhere.ts"))).toBeNull()
+    })
+
+    it("forgets cached lookups on clear", async () => {
+      const resolver = new NestedConfigResolverImpl(projectDir)
+      mkdirSync(packageDir, { recursive: true })
+
+      expect(await resolver.find("packages/web/index.ts")).toBeNull()
+      writeJson(join(packageDir, "preload-skills.json"), { fileTypeSkills: { ".ts": ["web"] } })
+      expect(await resolver.find("packages/web/index.ts")).toBeNull()
+
+      resolver.clear()
+      expect((await resolver.find("packages/web/index.ts"))?.fileTypeSkills).toEqual({ ".ts": ["web"] })
+    })
+
+    it("gives paths relative to the config's directory", () => {
+      expect(pathRelativeTo(packageDir, join(packageDir, "src", "a.ts"))).toBe("src/a.ts")
+      expect(pathRelativeTo(packageDir, join(projectDir, "b.ts"))).toBe(join(projectDir, "b.ts"))
+    })
+  })
+
+  describe("config versions", () => {
+    it("migrates unversioned configs and warns about deprecated values", async () => {
+      writeJson(opencodeConfigPath, { useMinification: true, profiles: { ci: { useMinification: true } } })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.config.useMinification).toBe("standard")
+      expect(resolved.config.profiles).toEqual({ ci: { useMinification: "standard" } })
+      expect(resolved.diagnostics.map((d) => [d.severity, d.path])).toEqual([
+        ["warning", "useMinification"],
+        ["warning", "profiles.ci.useMinification"],
+      ])
+      expect(resolved.diagnostics[0]!.message).toContain("preload_skills_migrate")
+    })
+
+    it("leaves current configs alone", () => {
+      const raw = { version: CURRENT_CONFIG_VERSION, useMinification: true }
+
+      expect(migrateConfig(raw)).toEqual({ config: raw, fromVersion: CURRENT_CONFIG_VERSION, changes: [] })
+    })
+
+    it("warns about deprecated values in current configs too", async () => {
+      writeJson(opencodeConfigPath, { version: CURRENT_CONFIG_VERSION, useMinification: true })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.config.useMinification).toBe("standard")
+      expect(resolved.diagnostics).toEqual([
+        expect.objectContaining({
+          severity: "warning",
+          path: "useMinification",
+          message: '`true` is deprecated, use "standard"',
+        }),
+      ])
+    })
+
+    it("warns about configs newer than the plugin", async () => {
+      writeJson(opencodeConfigPath, { version: CURRENT_CONFIG_VERSION + 1, maxTokens: 1000 })
+
+      const resolved = await resolveConfig(projectDir)
+
+      expect(resolved.config.maxTokens).toBe(1000)
+      expect(resolved.diagnostics).toEqual([
+        expect.objectContaining({ severity: "warning", path: "version" }),
+      ])
+    })
+
+    it("rewrites .json files and reports other formats", async () => {
+      mkdirSync(join(opencodeConfigPath, ".."), { recursive: true })
+      writeFileSync(opencodeConfigPath, '{\n    "skills": ["react"],\n    "useMinification": true\n}\n')
+      writeFileSync(localConfigPath.replace(".json", ".jsonc"), '{ "useMinification": true } // mine')
+      writeJson(globalConfigPath, { version: CURRENT_CONFIG_VERSION })
+
+      const resolved = await resolveConfig(projectDir)
+      const results = await migrateConfigFiles(resolved.layers, [], projectDir)
+
+      expect(results.map((r) => r.status)).toEqual(["current", "updated", "manual"])
+      expect(results[2]!.changes).toEqual([expect.objectContaining({ path: "useMinification" })])
+      expect(readFileSync(opencodeConfigPath, "utf-8")).toBe(
+        `{\n    "version": ${CURRENT_CONFIG_VERSION},\n    "skills": [\n        "react"\n    ],\n    "useMinification": "standard"\n}\n`
+      )
+      expect((await resolveConfig(projectDir)).diagnostics).toHaveLength(1)
+    })
+  })
+
+  describe("config schema", () => {
+    it("is up to date with PreloadSkillsConfig (run `npm run schema` to regenerate)", () => {
+      expect(generateConfigSchema()).toEqual(CONFIG_SCHEMA)
+    }, 30_000)
+
+    it("describes every option", () => {
+      for (const [key, property] of Object.entries(CONFIG_SCHEMA.properties ?? {})) {
+        expect(property.description, key).toBeTruthy()
+      }
+    })
+  })
+
+  describe("mergeConfigLayers", () => {
+    it("lets later scalars override earlier ones", () => {
+      const { config, sources } = mergeConfigLayers([
+        { name: "global", path: "/g", config: { injectionMethod: "chatMessage", debug: true } },
+        { name: "local", path: "/l", config: { injectionMethod: "systemPrompt" } },
+      ])
+
+      expect(config.injectionMethod).toBe("systemPrompt")
+      expect(config.debug).toBe(true)
+      expect(sources.injectionMethod).toEqual(["local"])
+      expect(sources.debug).toEqual(["global"])
+    })
+
+    it("does not attribute empty arrays to a layer", () => {
+      const { sources } = mergeConfigLayers([
+        { name: "project", path: "/p", config: { skills: [] } },
+      ])
+
+      expect(sources.skills).toBeUndefined()
+    })
+  })
+
+  describe("formatConfigPath", () => {
+    it("uses dot notation for identifiers and brackets otherwise", () => {
+      expect(formatConfigPath("", "skills")).toBe("skills")
+      expect(formatConfigPath("skills", 2)).toBe("skills[2]")
+      expect(formatConfigPath("fileTypeSkills", ".ts,.tsx")).toBe('fileTypeSkills[".ts,.tsx"]')
+      expect(formatConfigPath("skillSettings", "react")).toBe("skillSettings.react")
+    })
+  })
+})
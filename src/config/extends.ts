@@ -0,0 +1,96 @@
+import { existsSync, readFileSync, statSync } from "node:fs"
+import { dirname, isAbsolute, join, resolve } from "node:path"
+import { homedir } from "node:os"
+import { DATA_CONFIG_EXTENSIONS, MODULE_CONFIG_EXTENSIONS } from "./formats.js"
+
+const CONFIG_EXTENSIONS = [...DATA_CONFIG_EXTENSIONS, ...MODULE_CONFIG_EXTENSIONS]
+
+const PACKAGE_CONFIG_FILES = [
+  ...DATA_CONFIG_EXTENSIONS.map((ext) => `preload-skills${ext}`),
+  ...MODULE_CONFIG_EXTENSIONS.map((ext) => `preload-skills.config${ext}`),
+]
+
+function isFile(path: string): boolean {
+  return existsSync(path) && statSync(path).isFile()
+}
+
+function findFileWithExtensions(path: string): string | null {
+  if (isFile(path)) return path
+  for (const ext of CONFIG_EXTENSIONS) {
+    if (isFile(`${path}${ext}`)) return `${path}${ext}`
+  }
+  return null
+}
+
+/** Splits `@scope/name/sub/path` or `name/sub/path` into the package name and the rest. */
+export function splitPackageSpecifier(specifier: string): { name: string; subpath: string } {
+  const parts = specifier.split("/")
+  const nameLength = specifier.startsWith("@") ? 2 : 1
+  return {
+    name: parts.slice(0, nameLength).join("/"),
+    subpath: parts.slice(nameLength).join("/"),
+  }
+}
+
+/** Finds an installed package in `node_modules` from `fromDir` upwards. */
+export function findPackageDir(name: string, fromDir: string): string | null {
+  let dir = fromDir
+  for (;;) {
+    const candidate = join(dir, "node_modules", name)
+    if (existsSync(join(candidate, "package.json"))) return candidate
+
+    const parent = dirname(dir)
+    if (parent === dir) return null
+    dir = parent
+  }
+}
+
+function findPackageEntry(packageDir: string): string | null {
+  try {
+    const packageJson = JSON.parse(readFileSync(join(packageDir, "package.json"), "utf-8"))
+    for (const field of [packageJson.preloadSkills, packageJson.main]) {
+      if (typeof field !== "string") continue
+      const entry = join(packageDir, field)
+      if (CONFIG_EXTENSIONS.some((ext) => entry.endsWith(ext)) && isFile(entry)) return entry
+    }
+  } catch {
+    // Fall through to the conventional file names.
+  }
+
+  for (const file of PACKAGE_CONFIG_FILES) {
+    if (isFile(join(packageDir, file))) return join(packageDir, file)
+  }
+  return null
+}
+
+export function isPathSpecifier(specifier: string): boolean {
+  return specifier.startsWith(".") || specifier.startsWith("~/") || isAbsolute(specifier)
+}
+
+/**
+ * Resolves an `extends` entry to a config file path.
+ *
+ * Path specifiers (`./base.json`, `../shared/preset`, `~/presets/team.yaml`,
+ * absolute paths) resolve relative to the extending file, trying the config
+ * extensions when none is given. Anything else is a package name looked up
+ * in `node_modules` from the extending file's directory upwards; the package
+ * supplies its preset through a `preloadSkills` field, a config-file `main`,
+ * or a `preload-skills.*` file at its root. A subpath
+ * (`@acme/preload-skills-preset/strict.json`) selects a file in the package.
+ */
+export function resolvePresetPath(specifier: string, fromFile: string): string | null {
+  const fromDir = dirname(fromFile)
+
+  if (isPathSpecifier(specifier)) {
+    const path = specifier.startsWith("~/")
+      ? join(homedir(), specifier.slice(2))
+      : resolve(fromDir, specifier)
+    return findFileWithExtensions(path)
+  }
+
+  const { name, subpath } = splitPackageSpecifier(specifier)
+  const packageDir = findPackageDir(name, fromDir)
+  if (!packageDir) return null
+
+  return subpath ? findFileWithExtensions(join(packageDir, subpath)) : findPackageEntry(packageDir)
+}
@@ -0,0 +1,145 @@
+import { readFileSync, statSync } from "node:fs"
+import { extname } from "node:path"
+import { pathToFileURL } from "node:url"
+import { parseYaml, YamlError } from "../yaml.js"
+
+export type ConfigFormat = "json" | "jsonc" | "yaml" | "module"
+
+export const DATA_CONFIG_EXTENSIONS = [".json", ".jsonc", ".yaml", ".yml"]
+export const MODULE_CONFIG_EXTENSIONS = [".ts", ".mjs"]
+
+export class ConfigParseError extends Error {
+  constructor(
+    message: string,
+    readonly line?: number
+  ) {
+    super(message)
+    this.name = "ConfigParseError"
+  }
+}
+
+export function getConfigFormat(path: string): ConfigFormat {
+  const ext = extname(path).toLowerCase()
+  if (ext === ".jsonc") return "jsonc"
+  if (ext === ".yaml" || ext === ".yml") return "yaml"
+  if (MODULE_CONFIG_EXTENSIONS.includes(ext)) return "module"
+  return "json"
+}
+
+function skipString(text: string, start: number): number {
+  let i = start + 1
+  for (; i < text.length && text[i] !== '"'; i++) {
+    if (text[i] === "\\") i++
+  }
+  return i + 1
+}
+
+function blankTrailingCommas(text: string): string {
+  let result = ""
+  let i = 0
+
+  while (i < text.length) {
+    if (text[i] === '"') {
+      const end = skipString(text, i)
+      result += text.slice(i, end)
+      i = end
+    } else if (text[i] === "," && /^\s*[}\]]/.test(text.slice(i + 1))) {
+      result += " "
+      i++
+    } else {
+      result += text[i]
+      i++
+    }
+  }
+  return result
+}
+
+/**
+ * Blanks out comments and trailing commas so JSON.parse accepts JSONC while
+ * error positions still line up with the original text.
+ */
+export function stripJsonComments(text: string): string {
+  let result = ""
+  let i = 0
+
+  while (i < text.length) {
+    const ch = text[i]!
+
+    if (ch === '"') {
+      const end = skipString(text, i)
+      result += text.slice(i, end)
+      i = end
+    } else if (ch === "/" && text[i + 1] === "/") {
+      const end = text.indexOf("\n", i)
+      const stop = end === -1 ? text.length : end
+      result += " ".repeat(stop - i)
+      i = stop
+    } else if (ch === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2)
+      const stop = end === -1 ? text.length : end + 2
+      result += text.slice(i, stop).replace(/[^\n]/g, " ")
+      i = stop
+    } else {
+      result += ch
+      i++
+    }
+  }
+
+  return blankTrailingCommas(result)
+}
+
+function lineAt(text: string, position: number): number {
+  return text.slice(0, position).split("\n").length
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const position = message.match(/position (\d+)/)
+    throw new ConfigParseError(message, position ? lineAt(text, Number(position[1])) : undefined)
+  }
+}
+
+async function importConfigModule(path: string, projectDir: string): Promise<unknown> {
+  // The mtime query makes re-imports pick up edits instead of the module cache.
+  const url = `${pathToFileURL(path).href}?t=${Math.round(statSync(path).mtimeMs)}`
+  const mod = (await import(url)) as { default?: unknown; config?: unknown }
+  const exported = mod.default ?? mod.config
+
+  if (typeof exported === "function") {
+    return await exported(projectDir)
+  }
+  return exported
+}
+
+/**
+ * Reads a config file in any supported format and returns the raw value,
+ * before validation. Module configs may export a config object or a
+ * (possibly async) function of the project directory.
+ */
+export async function readConfigSource(
+  path: string,
+  projectDir: string,
+  format = getConfigFormat(path)
+): Promise<unknown> {
+  if (format === "module") {
+    return importConfigModule(path, projectDir)
+  }
+
+  const text = readFileSync(path, "utf-8")
+
+  if (format === "yaml") {
+    try {
+      return parseYaml(text) ?? {}
+    } catch (error) {
+      if (error instanceof YamlError) {
+        throw new ConfigParseError(error.reason, error.line)
+      }
+      throw error
+    }
+  }
+
+  return parseJson(format === "jsonc" ? stripJsonComments(text) : text)
+}
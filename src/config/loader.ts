@@ -1,4 +1,4 @@
-import { existsSync, readFileSync } from "node:fs"
+import { existsSync } from "node:fs"
 import { join } from "node:path"
 import { homedir } from "node:os"
 import type {
@@ -6,21 +6,51 @@ import type {
   ConditionalSkill,
   SkillSettings,
   InjectionMethod,
+  ConfigProfile,
+  ConfigLayer,
+  ConfigLayerName,
+  ConfigDiagnostic,
+  ResolvedConfig,
 } from "../types.js"
+import { mergeConfigLayers, formatConfigPath, joinConfigPath } from "./merge.js"
+import { validateConfig } from "./validate.js"
+import { resolvePresetPath, isPathSpecifier } from "./extends.js"
+import { agentProfileDiagnostics, applyProfile, applyProfileSources, selectEnvProfile } from "./profiles.js"
+import { findInlineConfigSections, OPENCODE_CONFIG_FILES } from "./opencode.js"
+import { migrateConfig, CURRENT_CONFIG_VERSION, type MigratedConfig } from "./migrate.js"
+import {
+  readConfigSource,
+  getConfigFormat,
+  ConfigParseError,
+  DATA_CONFIG_EXTENSIONS,
+  MODULE_CONFIG_EXTENSIONS,
+} from "./formats.js"
 
-const CONFIG_FILENAME = "preload-skills.json"
+const CONFIG_BASENAME = "preload-skills"
+const LOCAL_CONFIG_BASENAME = "preload-skills.local"
+
+/** Layers read from the plugin's options inside `opencode.json`. */
+const INLINE_LAYERS: ConfigLayerName[] = ["global-inline", "project-inline"]
 
 export const DEFAULT_CONFIG: PreloadSkillsConfig = {
   skills: [],
+  skillPaths: [],
+  globalSkills: true,
+  packageSkills: false,
+  templateEnv: [],
   fileTypeSkills: {},
   agentSkills: {},
   pathPatterns: {},
   contentTriggers: {},
   groups: {},
   conditionalSkills: [],
+  conflicts: [],
+  conflictResolution: "keepFirst",
   skillSettings: {},
   injectionMethod: "systemPrompt",
   maxTokens: undefined,
+  budgetStrategy: "order",
+  tokenizers: {},
   useSummaries: false,
   useMinification: false,
   showToasts: false,
@@ -28,21 +58,83 @@ export const DEFAULT_CONFIG: PreloadSkillsConfig = {
   analytics: false,
   persistAfterCompaction: true,
   debug: false,
+  strict: false,
+  hotReload: true,
+}
+
+const CONDITION_KEYS = ["fileExists", "packageHasDependency", "envVar"]
+
+interface ConfigLayerLocation {
+  name: ConfigLayerName
+  candidates: string[]
+}
+
+/** Config file names tried in each directory, in order: data formats first, then modules. */
+function configCandidates(dir: string): string[] {
+  return [
+    ...DATA_CONFIG_EXTENSIONS.map((ext) => join(dir, `${CONFIG_BASENAME}${ext}`)),
+    ...MODULE_CONFIG_EXTENSIONS.map((ext) => join(dir, `${CONFIG_BASENAME}.config${ext}`)),
+  ]
+}
+
+function localConfigCandidates(dir: string): string[] {
+  return DATA_CONFIG_EXTENSIONS.map((ext) => join(dir, `${LOCAL_CONFIG_BASENAME}${ext}`))
+}
+
+function opencodeConfigCandidates(dir: string): string[] {
+  return OPENCODE_CONFIG_FILES.map((file) => join(dir, file))
 }
 
-function findConfigFile(projectDir: string): string | null {
-  const locations = [
-    join(projectDir, ".opencode", CONFIG_FILENAME),
-    join(projectDir, CONFIG_FILENAME),
-    join(homedir(), ".config", "opencode", CONFIG_FILENAME),
+function getConfigLayerLocations(projectDir: string): ConfigLayerLocation[] {
+  const globalDir = join(homedir(), ".config", "opencode")
+  return [
+    { name: "global-inline", candidates: opencodeConfigCandidates(globalDir) },
+    { name: "global", candidates: configCandidates(globalDir) },
+    {
+      name: "project-inline",
+      candidates: [
+        ...opencodeConfigCandidates(projectDir),
+        ...opencodeConfigCandidates(join(projectDir, ".opencode")),
+      ],
+    },
+    { name: "project", candidates: configCandidates(projectDir) },
+    { name: "opencode", candidates: configCandidates(join(projectDir, ".opencode")) },
+    {
+      name: "local",
+      candidates: [
+        ...localConfigCandidates(join(projectDir, ".opencode")),
+        ...localConfigCandidates(projectDir),
+      ],
+    },
   ]
+}
+
+/**
+ * The config file for a nested directory, if one exists. Only data formats
+ * count: nested configs are found by touching files, and loading a module
+ * config would run code from any directory the agent reads.
+ */
+export function findNestedConfigFile(dir: string): string | undefined {
+  return DATA_CONFIG_EXTENSIONS.map((ext) => join(dir, `${CONFIG_BASENAME}${ext}`)).find((candidate) =>
+    existsSync(candidate)
+  )
+}
+
+/** Every path a config file may live at, for watching. */
+export function getConfigCandidatePaths(projectDir: string): string[] {
+  return getConfigLayerLocations(projectDir).flatMap(({ candidates }) => candidates)
+}
+
+function findConfigFiles(projectDir: string): Array<{ name: ConfigLayerName; path: string }> {
+  const found: Array<{ name: ConfigLayerName; path: string }> = []
 
-  for (const path of locations) {
-    if (existsSync(path)) {
-      return path
+  for (const { name, candidates } of getConfigLayerLocations(projectDir)) {
+    const path = candidates.find((candidate) => existsSync(candidate))
+    if (path) {
+      found.push({ name, path })
     }
   }
-  return null
+  return found
 }
 
 function parseStringArrayRecord(raw: unknown): Record<string, string[]> {
@@ -65,7 +157,11 @@ function parseConditionalSkills(raw: unknown): ConditionalSkill[] {
       typeof item === "object" &&
       item !== null &&
       typeof item.skill === "string" &&
-      typeof item.if === "object"
+      typeof item.if === "object" &&
+      item.if !== null &&
+      Object.entries(item.if).every(
+        ([key, value]) => CONDITION_KEYS.includes(key) && typeof value === "string"
+      )
   )
 }
 
@@ -79,6 +175,9 @@ function parseSkillSettings(raw: unknown): Record<string, SkillSettings> {
       if ("useSummary" in settings && typeof settings.useSummary === "boolean") {
         parsed.useSummary = settings.useSummary
       }
+      if ("priority" in settings && typeof settings.priority === "number") {
+        parsed.priority = settings.priority
+      }
       if (Object.keys(parsed).length > 0) {
         result[skillName] = parsed
       }
@@ -87,65 +186,401 @@ function parseSkillSettings(raw: unknown): Record<string, SkillSettings> {
   return result
 }
 
-function loadConfigFile(projectDir: string): Partial<PreloadSkillsConfig> {
-  const configPath = findConfigFile(projectDir)
-  if (!configPath) {
-    return {}
+function parseConflicts(raw: unknown): string[][] {
+  if (!Array.isArray(raw)) return []
+
+  return raw
+    .filter((group): group is unknown[] => Array.isArray(group))
+    .map((group) => group.filter((name): name is string => typeof name === "string"))
+    .filter((group) => group.length > 1)
+}
+
+function parseProfiles(raw: unknown): Record<string, ConfigProfile> {
+  if (!raw || typeof raw !== "object") return {}
+
+  const result: Record<string, ConfigProfile> = {}
+  for (const [name, profile] of Object.entries(raw)) {
+    if (typeof profile === "object" && profile !== null && !Array.isArray(profile)) {
+      const { extends: _extends, profiles: _profiles, ...options } = normalizeConfig(profile)
+      result[name] = options
+    }
+  }
+  return result
+}
+
+function normalizeConfig(parsed: Record<string, unknown>): Partial<PreloadSkillsConfig> {
+  const config: Partial<PreloadSkillsConfig> = {}
+
+  if (Array.isArray(parsed.skills)) {
+    config.skills = parsed.skills.filter((s) => typeof s === "string")
+  }
+  if (Array.isArray(parsed.skillPaths)) {
+    config.skillPaths = parsed.skillPaths.filter((p) => typeof p === "string" && p.length > 0)
+  }
+  if (typeof parsed.globalSkills === "boolean") {
+    config.globalSkills = parsed.globalSkills
+  }
+  if (typeof parsed.packageSkills === "boolean") {
+    config.packageSkills = parsed.packageSkills
+  }
+  if (Array.isArray(parsed.templateEnv)) {
+    config.templateEnv = parsed.templateEnv.filter((name) => typeof name === "string")
+  }
+  if ("fileTypeSkills" in parsed) {
+    config.fileTypeSkills = parseStringArrayRecord(parsed.fileTypeSkills)
+  }
+  if ("agentSkills" in parsed) {
+    config.agentSkills = parseStringArrayRecord(parsed.agentSkills)
+  }
+  if ("pathPatterns" in parsed) {
+    config.pathPatterns = parseStringArrayRecord(parsed.pathPatterns)
+  }
+  if ("contentTriggers" in parsed) {
+    config.contentTriggers = parseStringArrayRecord(parsed.contentTriggers)
+  }
+  if ("groups" in parsed) {
+    config.groups = parseStringArrayRecord(parsed.groups)
+  }
+  if ("conditionalSkills" in parsed) {
+    config.conditionalSkills = parseConditionalSkills(parsed.conditionalSkills)
+  }
+  if ("conflicts" in parsed) {
+    config.conflicts = parseConflicts(parsed.conflicts)
+  }
+  if (
+    parsed.conflictResolution === "keepFirst" ||
+    parsed.conflictResolution === "priority" ||
+    parsed.conflictResolution === "replace"
+  ) {
+    config.conflictResolution = parsed.conflictResolution
+  }
+  if ("skillSettings" in parsed) {
+    config.skillSettings = parseSkillSettings(parsed.skillSettings)
+  }
+
+  if (typeof parsed.maxTokens === "number" && parsed.maxTokens > 0) {
+    config.maxTokens = parsed.maxTokens
+  }
+  if (
+    parsed.budgetStrategy === "order" ||
+    parsed.budgetStrategy === "priority" ||
+    parsed.budgetStrategy === "maximize-count" ||
+    parsed.budgetStrategy === "maximize-value"
+  ) {
+    config.budgetStrategy = parsed.budgetStrategy
+  }
+  if (typeof parsed.tokenizers === "object" && parsed.tokenizers !== null && !Array.isArray(parsed.tokenizers)) {
+    config.tokenizers = Object.fromEntries(
+      Object.entries(parsed.tokenizers).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+    )
+  }
+  if (typeof parsed.useSummaries === "boolean") {
+    config.useSummaries = parsed.useSummaries
+  }
+  if (parsed.useMinification === true) {
+    config.useMinification = "standard"
+  } else if (
+    parsed.useMinification === false ||
+    parsed.useMinification === "standard" ||
+    parsed.useMinification === "aggressive"
+  ) {
+    config.useMinification = parsed.useMinification
+  }
+  if (typeof parsed.showToasts === "boolean") {
+    config.showToasts = parsed.showToasts
+  }
+  if (typeof parsed.enableTools === "boolean") {
+    config.enableTools = parsed.enableTools
+  }
+  if (typeof parsed.analytics === "boolean") {
+    config.analytics = parsed.analytics
+  }
+  if (typeof parsed.persistAfterCompaction === "boolean") {
+    config.persistAfterCompaction = parsed.persistAfterCompaction
+  }
+  if (typeof parsed.debug === "boolean") {
+    config.debug = parsed.debug
+  }
+  if (typeof parsed.strict === "boolean") {
+    config.strict = parsed.strict
+  }
+  if (typeof parsed.hotReload === "boolean") {
+    config.hotReload = parsed.hotReload
+  }
+  if (parsed.injectionMethod === "systemPrompt" || parsed.injectionMethod === "chatMessage") {
+    config.injectionMethod = parsed.injectionMethod as InjectionMethod
+  }
+  if ("profiles" in parsed) {
+    config.profiles = parseProfiles(parsed.profiles)
+  }
+
+  return config
+}
+
+interface LoadedConfigFile {
+  config: Partial<PreloadSkillsConfig>
+  presets: Array<{ specifier: string; path: string }>
+  diagnostics: ConfigDiagnostic[]
+}
+
+function readExtends(
+  parsed: Record<string, unknown>,
+  basePath: string
+): Array<{ specifier: string; path: string }> {
+  const extendsPath = formatConfigPath(basePath, "extends")
+  if (typeof parsed.extends === "string") {
+    return [{ specifier: parsed.extends, path: extendsPath }]
+  }
+  if (!Array.isArray(parsed.extends)) return []
+
+  return parsed.extends.flatMap((specifier, i) =>
+    typeof specifier === "string" ? [{ specifier, path: formatConfigPath(extendsPath, i) }] : []
+  )
+}
+
+function unreadableConfig(configPath: string, error: unknown): LoadedConfigFile {
+  return {
+    config: {},
+    presets: [],
+    diagnostics: [
+      {
+        severity: "error",
+        file: configPath,
+        path: "",
+        line: error instanceof ConfigParseError ? error.line : undefined,
+        message: `Could not read config: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    ],
+  }
+}
+
+function migrationDiagnostics(migrated: MigratedConfig, file: string, basePath: string): ConfigDiagnostic[] {
+  if (migrated.fromVersion > CURRENT_CONFIG_VERSION) {
+    return [
+      {
+        severity: "warning",
+        file,
+        path: formatConfigPath(basePath, "version"),
+        message: `Config version ${migrated.fromVersion} is newer than this plugin supports (${CURRENT_CONFIG_VERSION}); update opencode-plugin-preload-skills`,
+      },
+    ]
+  }
+
+  return migrated.changes.map((change) => ({
+    severity: "warning",
+    file,
+    path: joinConfigPath(basePath, change.path),
+    message: `${change.message} (config version ${migrated.fromVersion} → ${CURRENT_CONFIG_VERSION}; run the preload_skills_migrate tool to update the file)`,
+  }))
+}
+
+/** Validates and normalizes a raw config value found at `basePath` in `file`. */
+function loadConfigValue(value: unknown, file: string, basePath = ""): LoadedConfigFile {
+  const migrated = migrateConfig(value)
+  const parsed = migrated.config
+  const diagnostics = [
+    ...migrationDiagnostics(migrated, file, basePath),
+    ...validateConfig(parsed, file, basePath),
+  ]
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return { config: {}, presets: [], diagnostics }
   }
 
+  const raw = parsed as Record<string, unknown>
+  return { config: normalizeConfig(raw), presets: readExtends(raw, basePath), diagnostics }
+}
+
+async function loadConfigFile(configPath: string, projectDir: string): Promise<LoadedConfigFile> {
   try {
-    const content = readFileSync(configPath, "utf-8")
-    const parsed = JSON.parse(content) as Record<string, unknown>
-
-    const config: Partial<PreloadSkillsConfig> = {
-      skills: Array.isArray(parsed.skills) ? parsed.skills : [],
-      fileTypeSkills: parseStringArrayRecord(parsed.fileTypeSkills),
-      agentSkills: parseStringArrayRecord(parsed.agentSkills),
-      pathPatterns: parseStringArrayRecord(parsed.pathPatterns),
-      contentTriggers: parseStringArrayRecord(parsed.contentTriggers),
-      groups: parseStringArrayRecord(parsed.groups),
-      conditionalSkills: parseConditionalSkills(parsed.conditionalSkills),
-      skillSettings: parseSkillSettings(parsed.skillSettings),
-    }
+    return loadConfigValue(await readConfigSource(configPath, projectDir), configPath)
+  } catch (error) {
+    return unreadableConfig(configPath, error)
+  }
+}
 
-    if (typeof parsed.maxTokens === "number") {
-      config.maxTokens = parsed.maxTokens
-    }
-    if (typeof parsed.useSummaries === "boolean") {
-      config.useSummaries = parsed.useSummaries
-    }
-    if (typeof parsed.useMinification === "boolean") {
-      config.useMinification = parsed.useMinification
-    }
-    if (typeof parsed.showToasts === "boolean") {
-      config.showToasts = parsed.showToasts
-    }
-    if (typeof parsed.enableTools === "boolean") {
-      config.enableTools = parsed.enableTools
-    }
-    if (typeof parsed.analytics === "boolean") {
-      config.analytics = parsed.analytics
-    }
-    if (typeof parsed.persistAfterCompaction === "boolean") {
-      config.persistAfterCompaction = parsed.persistAfterCompaction
+/**
+ * Loads the plugin options from an `opencode.json`, which OpenCode parses as
+ * JSONC whatever its extension. Returns null when the file has none.
+ */
+async function loadInlineConfig(
+  configPath: string,
+  name: ConfigLayerName,
+  projectDir: string
+): Promise<LoadedConfigFile | null> {
+  let parsed: unknown
+  try {
+    parsed = await readConfigSource(configPath, projectDir, "jsonc")
+  } catch (error) {
+    return unreadableConfig(configPath, error)
+  }
+
+  const sections = findInlineConfigSections(parsed)
+  if (sections.length === 0) return null
+
+  const loaded = sections.map(({ path, value }) => loadConfigValue(value, configPath, path))
+  return {
+    config: mergeConfigLayers(loaded.map(({ config }) => ({ name, path: configPath, config }))).config,
+    presets: loaded.flatMap(({ presets }) => presets),
+    diagnostics: loaded.flatMap(({ diagnostics }) => diagnostics),
+  }
+}
+
+interface LoadedLayers {
+  layers: ConfigLayer[]
+  diagnostics: ConfigDiagnostic[]
+}
+
+/**
+ * Loads a config file together with the presets it extends. Presets come
+ * first, in the order listed, so the extending file overrides them. `chain`
+ * holds the files currently being loaded, to detect cycles; `seen` holds every
+ * file loaded so far, so a preset shared by two files is only applied once.
+ */
+async function loadLayerWithPresets(
+  layer: { name: ConfigLayerName; path: string; preset?: string },
+  projectDir: string,
+  chain: string[],
+  seen: Set<string>,
+  dataOnly = false
+): Promise<LoadedLayers> {
+  const loaded = INLINE_LAYERS.includes(layer.name)
+    ? await loadInlineConfig(layer.path, layer.name, projectDir)
+    : await loadConfigFile(layer.path, projectDir)
+  if (!loaded) return { layers: [], diagnostics: [] }
+
+  const layers: ConfigLayer[] = []
+  const diagnostics: ConfigDiagnostic[] = [...loaded.diagnostics]
+  seen.add(layer.path)
+
+  for (const { specifier, path } of loaded.presets) {
+    const presetPath = resolvePresetPath(specifier, layer.path)
+
+    if (!presetPath) {
+      diagnostics.push({
+        severity: "error",
+        file: layer.path,
+        path,
+        message: isPathSpecifier(specifier)
+          ? `Cannot resolve preset "${specifier}": no config file at that path`
+          : `Cannot resolve preset "${specifier}": package not found in node_modules or it has no preload-skills config`,
+      })
+      continue
     }
-    if (typeof parsed.debug === "boolean") {
-      config.debug = parsed.debug
+
+    if (dataOnly && getConfigFormat(presetPath) === "module") {
+      diagnostics.push({
+        severity: "error",
+        file: layer.path,
+        path,
+        message: `Cannot extend "${specifier}": nested configs only extend JSON or YAML presets`,
+      })
+      continue
     }
-    if (parsed.injectionMethod === "systemPrompt" || parsed.injectionMethod === "chatMessage") {
-      config.injectionMethod = parsed.injectionMethod as InjectionMethod
+
+    if (chain.includes(presetPath) || presetPath === layer.path) {
+      const cycle = [...chain.slice(chain.indexOf(presetPath)), layer.path, presetPath]
+      diagnostics.push({
+        severity: "error",
+        file: layer.path,
+        path,
+        message: `Circular extends: ${cycle.join(" → ")}`,
+      })
+      continue
     }
 
-    return config
-  } catch {
-    return {}
+    if (seen.has(presetPath)) continue
+
+    const preset = await loadLayerWithPresets(
+      { name: "preset", path: presetPath, preset: specifier },
+      projectDir,
+      [...chain, layer.path],
+      seen,
+      dataOnly
+    )
+    layers.push(...preset.layers)
+    diagnostics.push(...preset.diagnostics)
   }
+
+  layers.push({ ...layer, config: loaded.config })
+  return { layers, diagnostics }
 }
 
-export function loadConfig(projectDir: string): PreloadSkillsConfig {
-  const fileConfig = loadConfigFile(projectDir)
+/**
+ * Loads every config layer that exists and merges them, lowest precedence
+ * first: global, project root, `.opencode/`, then `preload-skills.local.*`.
+ * The global and project scopes each start with the plugin options found in
+ * that scope's `opencode.json`, which the standalone file overrides.
+ * Within a directory the first existing file wins, trying `.json`, `.jsonc`,
+ * `.yaml`, `.yml`, then `preload-skills.config.ts` and `.mjs`. Presets named
+ * in a file's `extends` are merged just before that file. The profile named
+ * by `PRELOAD_SKILLS_PROFILE` is applied on top of the merged result.
+ */
+export async function resolveConfig(projectDir: string): Promise<ResolvedConfig> {
+  const layers: ConfigLayer[] = []
+  const diagnostics: ConfigDiagnostic[] = []
+
+  const seen = new Set<string>()
+
+  for (const file of findConfigFiles(projectDir)) {
+    const loaded = await loadLayerWithPresets(file, projectDir, [], seen)
+    layers.push(...loaded.layers)
+    diagnostics.push(...loaded.diagnostics)
+  }
+
+  const { config: merged, sources } = mergeConfigLayers(layers)
+  const config = { ...DEFAULT_CONFIG, ...merged }
+  const selected = selectEnvProfile(config)
+  diagnostics.push(...selected.diagnostics)
+
+  if (!selected.profile) {
+    diagnostics.push(...agentProfileDiagnostics(layers))
+    return { config, layers, sources, diagnostics }
+  }
+
   return {
-    ...DEFAULT_CONFIG,
-    ...fileConfig,
+    config: applyProfile(config, selected.profile),
+    profile: selected.profile,
+    layers,
+    sources: applyProfileSources(sources, config, selected.profile),
+    diagnostics,
   }
 }
+
+/** Options a nested config can set; everything else only applies at the project root. */
+const NESTED_CONFIG_OPTIONS = ["fileTypeSkills", "pathPatterns"]
+
+/**
+ * Loads a nested config file, with its presets. Options other than
+ * `fileTypeSkills` and `pathPatterns` are reported and dropped, as are
+ * module presets.
+ */
+export async function loadNestedConfig(
+  configPath: string,
+  projectDir: string
+): Promise<{ config: Partial<PreloadSkillsConfig>; diagnostics: ConfigDiagnostic[] }> {
+  const loaded = await loadLayerWithPresets({ name: "nested", path: configPath }, projectDir, [], new Set(), true)
+  const diagnostics = [...loaded.diagnostics]
+
+  for (const layer of loaded.layers) {
+    for (const key of Object.keys(layer.config)) {
+      if (!NESTED_CONFIG_OPTIONS.includes(key)) {
+        diagnostics.push({
+          severity: "warning",
+          file: layer.path,
+          path: key,
+          message: `"${key}" is ignored in nested configs; only fileTypeSkills and pathPatterns apply below the project root`,
+        })
+      }
+    }
+  }
+
+  const { config } = mergeConfigLayers(loaded.layers)
+  return {
+    config: { fileTypeSkills: config.fileTypeSkills, pathPatterns: config.pathPatterns },
+    diagnostics,
+  }
+}
+
+export async function loadConfig(projectDir: string): Promise<PreloadSkillsConfig> {
+  return (await resolveConfig(projectDir)).config
+}
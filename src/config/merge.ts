@@ -0,0 +1,99 @@
+import type { PreloadSkillsConfig, ConfigLayer, ConfigSources } from "../types.js"
+
+export interface MergedConfig {
+  config: Partial<PreloadSkillsConfig>
+  sources: ConfigSources
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+export function formatConfigPath(parent: string, key: string | number): string {
+  if (typeof key === "number") return `${parent}[${key}]`
+  if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+    return parent ? `${parent}.${key}` : key
+  }
+  return `${parent}[${JSON.stringify(key)}]`
+}
+
+/** Appends a path already formatted by `formatConfigPath` to `parent`. */
+export function joinConfigPath(parent: string, path: string): string {
+  if (!parent || !path) return parent || path
+  return path.startsWith("[") ? `${parent}${path}` : `${parent}.${path}`
+}
+
+function dedupe(values: unknown[]): unknown[] {
+  const seen = new Set<string>()
+  return values.filter((value) => {
+    const key = JSON.stringify(value)
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Lists whose order is a precedence, so a higher layer's entries go first:
+ * the project's `skillPaths` are searched before the global config's.
+ */
+const HIGHER_LAYERS_FIRST = new Set(["skillPaths"])
+
+function mergeValue(
+  base: unknown,
+  next: unknown,
+  path: string,
+  layer: string,
+  sources: ConfigSources
+): unknown {
+  if (Array.isArray(next)) {
+    if (!Array.isArray(base)) {
+      sources[path] = next.length > 0 ? [layer] : []
+      return dedupe(next)
+    }
+    const higherFirst = HIGHER_LAYERS_FIRST.has(path)
+    if (next.length > 0 && !sources[path]?.includes(layer)) {
+      sources[path] = higherFirst ? [layer, ...(sources[path] ?? [])] : [...(sources[path] ?? []), layer]
+    }
+    return dedupe(higherFirst ? [...next, ...base] : [...base, ...next])
+  }
+
+  if (isPlainObject(next)) {
+    const result: Record<string, unknown> = isPlainObject(base) ? { ...base } : {}
+    for (const [key, value] of Object.entries(next)) {
+      result[key] = mergeValue(result[key], value, formatConfigPath(path, key), layer, sources)
+    }
+    return result
+  }
+
+  sources[path] = [layer]
+  return next
+}
+
+export function layerLabel(layer: ConfigLayer): string {
+  return layer.preset ? `preset ${layer.preset}` : layer.name
+}
+
+/**
+ * Merges config layers from lowest to highest precedence.
+ *
+ * Arrays are concatenated and de-duplicated, records are merged key by key,
+ * and scalars from later layers override earlier ones. `skillPaths` puts the
+ * later layer's entries first, since its order is a precedence. `sources`
+ * maps each merged value's path (e.g. `fileTypeSkills[".ts"]`) to the layers
+ * that contributed to it.
+ */
+export function mergeConfigLayers(layers: ConfigLayer[]): MergedConfig {
+  const sources: ConfigSources = {}
+  let merged: Record<string, unknown> = {}
+
+  for (const layer of layers) {
+    merged = mergeValue(merged, layer.config, "", layerLabel(layer), sources) as Record<string, unknown>
+  }
+
+  for (const [path, layerNames] of Object.entries(sources)) {
+    if (layerNames.length === 0) delete sources[path]
+  }
+
+  return { config: merged as Partial<PreloadSkillsConfig>, sources }
+}
@@ -0,0 +1,198 @@
+import { readFileSync, writeFileSync } from "node:fs"
+import { sep } from "node:path"
+import type { ConfigLayer } from "../types.js"
+import { readConfigSource, getConfigFormat } from "./formats.js"
+import { findInlineConfigSections } from "./opencode.js"
+import { formatConfigPath, joinConfigPath } from "./merge.js"
+
+/** The config format version this plugin writes and expects. */
+export const CURRENT_CONFIG_VERSION = 2
+
+export interface ConfigChange {
+  /** JSON path of the changed value. */
+  path: string
+  message: string
+}
+
+interface ConfigMigration {
+  /** The version this migration upgrades a config to. */
+  to: number
+  /** Rewrites `config` in place, reporting every change it makes. */
+  migrate(config: Record<string, unknown>, report: (change: ConfigChange) => void): void
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/** Calls `fn` for the top-level options and for each profile's options. */
+function forEachOptionSet(
+  config: Record<string, unknown>,
+  fn: (options: Record<string, unknown>, path: string) => void
+): void {
+  fn(config, "")
+  if (!isRecord(config.profiles)) return
+  for (const [name, profile] of Object.entries(config.profiles)) {
+    if (isRecord(profile)) fn(profile, formatConfigPath("profiles", name))
+  }
+}
+
+/** Upgrades, in order, a config of version `to - 1`. Add new entries at the end. */
+const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    // Version 2 introduced minification levels; `true` is spelled "standard".
+    to: 2,
+    migrate(config, report) {
+      forEachOptionSet(config, (options, path) => {
+        if (options.useMinification === true) {
+          options.useMinification = "standard"
+          report({
+            path: formatConfigPath(path, "useMinification"),
+            message: '`true` is deprecated, use "standard"',
+          })
+        }
+      })
+    },
+  },
+]
+
+export interface MigratedConfig {
+  /** The config upgraded to `CURRENT_CONFIG_VERSION`, or the input if already current. */
+  config: unknown
+  /** The version the input was written for. */
+  fromVersion: number
+  changes: ConfigChange[]
+}
+
+/**
+ * Runs every migration newer than the config's `version` (1 when missing)
+ * and stamps the result with the current version. Inputs that are not
+ * objects or already current are returned as they are.
+ */
+export function migrateConfig(raw: unknown): MigratedConfig {
+  if (!isRecord(raw)) return { config: raw, fromVersion: CURRENT_CONFIG_VERSION, changes: [] }
+
+  const fromVersion = typeof raw.version === "number" ? raw.version : 1
+  if (fromVersion >= CURRENT_CONFIG_VERSION) return { config: raw, fromVersion, changes: [] }
+
+  const { version: _version, ...rest } = structuredClone(raw)
+  const changes: ConfigChange[] = []
+  for (const migration of CONFIG_MIGRATIONS) {
+    if (migration.to > fromVersion) {
+      migration.migrate(rest, (change) => changes.push(change))
+    }
+  }
+
+  return { config: { version: CURRENT_CONFIG_VERSION, ...rest }, fromVersion, changes }
+}
+
+export type ConfigFileMigrationStatus = "updated" | "manual" | "current" | "failed"
+
+export interface ConfigFileMigration {
+  path: string
+  status: ConfigFileMigrationStatus
+  /** The version the file was written for. */
+  fromVersion: number
+  changes: ConfigChange[]
+  /** Why the file was not rewritten, for `manual` and `failed`. */
+  reason?: string
+}
+
+/** The indentation of the first indented line, so a rewrite keeps the file's style. */
+function detectIndent(text: string): string | number {
+  return /^([ \t]+)\S/m.exec(text)?.[1] ?? 2
+}
+
+function isPackageFile(path: string): boolean {
+  return path.split(sep).includes("node_modules")
+}
+
+function migrateInlineFile(path: string, parsed: unknown): ConfigFileMigration {
+  const sections = findInlineConfigSections(parsed).map(({ path: basePath, value }) => ({
+    basePath,
+    migrated: migrateConfig(value),
+  }))
+  const fromVersion = Math.min(CURRENT_CONFIG_VERSION, ...sections.map(({ migrated }) => migrated.fromVersion))
+  const changes = sections.flatMap(({ basePath, migrated }) =>
+    migrated.changes.map((change) => ({ ...change, path: joinConfigPath(basePath, change.path) }))
+  )
+
+  if (fromVersion >= CURRENT_CONFIG_VERSION) return { path, status: "current", fromVersion, changes }
+  return {
+    path,
+    status: "manual",
+    fromVersion,
+    changes,
+    reason: `OpenCode config files are not rewritten; set "version": ${CURRENT_CONFIG_VERSION} after applying the changes`,
+  }
+}
+
+/**
+ * Upgrades one config file to the current config version. Plain `.json`
+ * files are rewritten in place, keeping their indentation; JSONC, YAML and
+ * module configs, and plugin options inside `opencode.json`, would lose
+ * comments or code, so their changes are only reported.
+ */
+export async function migrateConfigFile(
+  path: string,
+  projectDir: string,
+  inline = false
+): Promise<ConfigFileMigration> {
+  let parsed: unknown
+  try {
+    parsed = await readConfigSource(path, projectDir, inline ? "jsonc" : undefined)
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    return { path, status: "failed", fromVersion: CURRENT_CONFIG_VERSION, changes: [], reason }
+  }
+
+  if (inline) return migrateInlineFile(path, parsed)
+
+  const { config, fromVersion, changes } = migrateConfig(parsed)
+  if (fromVersion >= CURRENT_CONFIG_VERSION) return { path, status: "current", fromVersion, changes }
+
+  if (getConfigFormat(path) !== "json") {
+    return {
+      path,
+      status: "manual",
+      fromVersion,
+      changes,
+      reason: `Only .json files are rewritten; set version: ${CURRENT_CONFIG_VERSION} after applying the changes`,
+    }
+  }
+
+  try {
+    const text = readFileSync(path, "utf-8")
+    const trailingNewline = text.endsWith("\n") ? "\n" : ""
+    writeFileSync(path, JSON.stringify(config, null, detectIndent(text)) + trailingNewline)
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    return { path, status: "failed", fromVersion, changes, reason }
+  }
+  return { path, status: "updated", fromVersion, changes }
+}
+
+/**
+ * Upgrades every loaded config file: the resolved layers, then any nested
+ * configs. Presets installed under `node_modules` belong to their package
+ * and are left alone.
+ */
+export async function migrateConfigFiles(
+  layers: ConfigLayer[],
+  nestedPaths: string[],
+  projectDir: string
+): Promise<ConfigFileMigration[]> {
+  const files = [
+    ...layers.map((layer) => ({ path: layer.path, inline: layer.name.endsWith("-inline") })),
+    ...nestedPaths.map((path) => ({ path, inline: false })),
+  ]
+
+  const results: ConfigFileMigration[] = []
+  const seen = new Set<string>()
+  for (const { path, inline } of files) {
+    if (seen.has(path) || isPackageFile(path)) continue
+    seen.add(path)
+    results.push(await migrateConfigFile(path, projectDir, inline))
+  }
+  return results
+}
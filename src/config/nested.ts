@@ -0,0 +1,81 @@
+import { dirname, isAbsolute, relative, resolve, sep } from "node:path"
+import type { ConfigDiagnostic, NestedConfig, NestedConfigResolver } from "../types.js"
+import { findNestedConfigFile, loadNestedConfig } from "./loader.js"
+
+/**
+ * Looks up nested `preload-skills.*` files between a touched file and the
+ * project root. Lookups are lazy and cached per directory, so large
+ * monorepos are never scanned up front; `clear()` forgets everything, e.g.
+ * after a hot reload.
+ */
+export class NestedConfigResolverImpl implements NestedConfigResolver {
+  private readonly byDirectory = new Map<string, Promise<NestedConfig | null>>()
+  private readonly loaded = new Map<string, NestedConfig>()
+
+  constructor(
+    private readonly projectDir: string,
+    private readonly onLoad?: (config: NestedConfig, diagnostics: ConfigDiagnostic[]) => void
+  ) {}
+
+  find(filePath: string): Promise<NestedConfig | null> {
+    const absolute = resolve(this.projectDir, filePath)
+    const fromRoot = relative(this.projectDir, absolute)
+    if (!fromRoot || fromRoot.startsWith("..") || isAbsolute(fromRoot)) {
+      return Promise.resolve(null)
+    }
+
+    // Package sources and the root `.opencode/` directory never hold nested configs.
+    const segments = fromRoot.split(sep)
+    if (segments.includes("node_modules") || segments[0] === ".opencode") {
+      return Promise.resolve(null)
+    }
+
+    return this.findFrom(dirname(absolute))
+  }
+
+  getLoaded(): NestedConfig[] {
+    return [...this.loaded.values()]
+  }
+
+  clear(): void {
+    this.byDirectory.clear()
+    this.loaded.clear()
+  }
+
+  private findFrom(dir: string): Promise<NestedConfig | null> {
+    if (dir === this.projectDir || !dir.startsWith(this.projectDir + sep)) {
+      return Promise.resolve(null)
+    }
+
+    let result = this.byDirectory.get(dir)
+    if (!result) {
+      const configPath = findNestedConfigFile(dir)
+      result = configPath ? this.load(dir, configPath) : this.findFrom(dirname(dir))
+      this.byDirectory.set(dir, result)
+    }
+    return result
+  }
+
+  private async load(dir: string, configPath: string): Promise<NestedConfig> {
+    const { config, diagnostics } = await loadNestedConfig(configPath, this.projectDir)
+    const nested: NestedConfig = {
+      dir,
+      path: configPath,
+      fileTypeSkills: config.fileTypeSkills ?? {},
+      pathPatterns: config.pathPatterns ?? {},
+    }
+    this.loaded.set(configPath, nested)
+    this.onLoad?.(nested, diagnostics)
+    return nested
+  }
+}
+
+/**
+ * The path to match a config's `pathPatterns` against: relative to the
+ * config's directory, with forward slashes, when the file is inside it.
+ */
+export function pathRelativeTo(dir: string, absolutePath: string): string {
+  const fromDir = relative(dir, absolutePath)
+  if (!fromDir || fromDir.startsWith("..") || isAbsolute(fromDir)) return absolutePath
+  return fromDir.split(sep).join("/")
+}
@@ -0,0 +1,56 @@
+import { basename } from "node:path"
+import { formatConfigPath } from "./merge.js"
+
+export const PLUGIN_NAME = "opencode-plugin-preload-skills"
+
+/** Top-level `opencode.json` key holding plugin options. */
+export const OPENCODE_CONFIG_SECTION = "preloadSkills"
+
+/** OpenCode config files, in the order OpenCode prefers them. */
+export const OPENCODE_CONFIG_FILES = ["opencode.jsonc", "opencode.json"]
+
+export interface InlineConfigSection {
+  /** JSON path of the options within `opencode.json`. */
+  path: string
+  value: unknown
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Whether a `plugin` entry refers to this package: the bare name, the name
+ * with a version or tag (`opencode-plugin-preload-skills@1.8.0`), or a path
+ * or URL ending in the package directory.
+ */
+export function isPluginSpecifier(specifier: string): boolean {
+  const versionAt = specifier.lastIndexOf("@")
+  const name = versionAt > 0 ? specifier.slice(0, versionAt) : specifier
+  return name === PLUGIN_NAME || basename(name.replace(/[\\/]+$/, "")) === PLUGIN_NAME
+}
+
+/**
+ * Finds this plugin's options in a parsed `opencode.json`: the options of a
+ * `["opencode-plugin-preload-skills", { ... }]` plugin entry, then the
+ * `preloadSkills` section. Later sections override earlier ones.
+ */
+export function findInlineConfigSections(opencodeConfig: unknown): InlineConfigSection[] {
+  if (!isObject(opencodeConfig)) return []
+
+  const sections: InlineConfigSection[] = []
+
+  if (Array.isArray(opencodeConfig.plugin)) {
+    opencodeConfig.plugin.forEach((entry, i) => {
+      if (Array.isArray(entry) && typeof entry[0] === "string" && isPluginSpecifier(entry[0]) && entry.length > 1) {
+        sections.push({ path: formatConfigPath(formatConfigPath("plugin", i), 1), value: entry[1] })
+      }
+    })
+  }
+
+  if (OPENCODE_CONFIG_SECTION in opencodeConfig) {
+    sections.push({ path: OPENCODE_CONFIG_SECTION, value: opencodeConfig[OPENCODE_CONFIG_SECTION] })
+  }
+
+  return sections
+}
@@ -0,0 +1,102 @@
+import type { PreloadSkillsConfig, ConfigSources, ConfigDiagnostic, ConfigLayer } from "../types.js"
+import { formatConfigPath } from "./merge.js"
+
+export const PROFILE_ENV_VAR = "PRELOAD_SKILLS_PROFILE"
+
+/** Options that apply to the whole plugin, so a profile picked by agent name cannot change them. */
+export const PLUGIN_WIDE_OPTIONS = [
+  "skillPaths",
+  "globalSkills",
+  "packageSkills",
+  "templateEnv",
+  "tokenizers",
+  "enableTools",
+  "showToasts",
+  "analytics",
+  "debug",
+  "strict",
+  "hotReload",
+] as const
+
+/**
+ * Returns `config` with the named profile applied. Every option the profile
+ * sets replaces the top-level value outright — a profile's `skills` list is
+ * the complete list, not an addition to it.
+ */
+export function applyProfile(config: PreloadSkillsConfig, name: string): PreloadSkillsConfig {
+  const profile = config.profiles?.[name]
+  return profile ? { ...config, ...profile } : config
+}
+
+/** Points the sources of every option the profile overrides at the profile. */
+export function applyProfileSources(
+  sources: ConfigSources,
+  config: PreloadSkillsConfig,
+  name: string
+): ConfigSources {
+  const profile = config.profiles?.[name] ?? {}
+  const result: ConfigSources = {}
+
+  for (const [path, layers] of Object.entries(sources)) {
+    const overridden = Object.keys(profile).some(
+      (key) => path === key || path.startsWith(`${key}.`) || path.startsWith(`${key}[`)
+    )
+    if (!overridden) result[path] = layers
+  }
+  for (const key of Object.keys(profile)) {
+    result[key] = [`profile ${name}`]
+  }
+  return result
+}
+
+/**
+ * Reads the profile selected through the environment. An unknown name is
+ * reported and ignored, so a typo falls back to the top-level config.
+ */
+export function selectEnvProfile(
+  config: PreloadSkillsConfig,
+  env: NodeJS.ProcessEnv = process.env
+): { profile?: string; diagnostics: ConfigDiagnostic[] } {
+  const name = env[PROFILE_ENV_VAR]?.trim()
+  if (!name) return { diagnostics: [] }
+
+  if (config.profiles && Object.hasOwn(config.profiles, name)) {
+    return { profile: name, diagnostics: [] }
+  }
+
+  const available = Object.keys(config.profiles ?? {})
+  return {
+    diagnostics: [
+      {
+        severity: "warning",
+        file: PROFILE_ENV_VAR,
+        path: "",
+        message: `Unknown profile "${name}". ${
+          available.length > 0 ? `Available profiles: ${available.join(", ")}` : "No profiles are configured"
+        }`,
+      },
+    ],
+  }
+}
+
+/**
+ * Reports plugin-wide options set in profiles, which a profile only applies
+ * when selected through the environment. Call it when no profile was.
+ */
+export function agentProfileDiagnostics(layers: ConfigLayer[]): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = []
+  for (const layer of layers) {
+    for (const [name, profile] of Object.entries(layer.config.profiles ?? {})) {
+      for (const key of PLUGIN_WIDE_OPTIONS) {
+        if (!(key in profile)) continue
+        diagnostics.push({
+          severity: "warning",
+          file: layer.path,
+          path: formatConfigPath(formatConfigPath("profiles", name), key),
+          message: `"${key}" is plugin-wide, so it only applies when ${PROFILE_ENV_VAR} selects the profile`,
+        })
+      }
+    }
+  }
+  return diagnostics
+}
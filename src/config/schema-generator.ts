@@ -0,0 +1,148 @@
+import ts from "typescript"
+import { fileURLToPath } from "node:url"
+import type { JsonSchema } from "./schema.js"
+
+const TYPES_FILE = fileURLToPath(new URL("../types.ts", import.meta.url))
+const ROOT_TYPE = "PreloadSkillsConfig"
+
+/** JSDoc tags copied onto a property's schema as numeric keywords. */
+const NUMERIC_TAGS = ["minimum", "exclusiveMinimum"] as const
+
+function documentation(symbol: ts.Symbol, checker: ts.TypeChecker): string | undefined {
+  const text = ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim()
+  return text ? text.replace(/\s*\n\s*/g, " ") : undefined
+}
+
+function numericTags(symbol: ts.Symbol): Partial<JsonSchema> {
+  const keywords: Partial<JsonSchema> = {}
+  for (const tag of symbol.getJsDocTags()) {
+    const name = NUMERIC_TAGS.find((keyword) => keyword === tag.name)
+    const value = Number(ts.displayPartsToString(tag.text))
+    if (name && Number.isFinite(value)) keywords[name] = value
+  }
+  return keywords
+}
+
+function literalValue(type: ts.Type, checker: ts.TypeChecker): string | number | boolean | undefined {
+  if (type.isStringLiteral() || type.isNumberLiteral()) return type.value
+  if (type.flags & ts.TypeFlags.BooleanLiteral) return checker.typeToString(type) === "true"
+  return undefined
+}
+
+/**
+ * Generates the config JSON Schema from the `PreloadSkillsConfig` interface
+ * in `src/types.ts`. Named interfaces and type aliases exported from that
+ * file become `definitions`; unions of literals become `enum`s, `Record`s
+ * become `additionalProperties`, and property doc comments become
+ * `description`s. Every option is optional at the top level, since any
+ * config file may set just a few of them.
+ */
+export function generateConfigSchema(typesFile = TYPES_FILE): JsonSchema {
+  const program = ts.createProgram([typesFile], {
+    strict: true,
+    noEmit: true,
+    target: ts.ScriptTarget.ES2022,
+    skipLibCheck: true,
+  })
+  const checker = program.getTypeChecker()
+  const source = program.getSourceFile(typesFile)
+  const moduleSymbol = source && checker.getSymbolAtLocation(source)
+  if (!moduleSymbol) throw new Error(`Cannot read ${typesFile}`)
+
+  const exported = new Map(checker.getExportsOfModule(moduleSymbol).map((s) => [s.name, s]))
+  const root = exported.get(ROOT_TYPE)
+  if (!root) throw new Error(`${typesFile} does not export ${ROOT_TYPE}`)
+
+  const definitions: Record<string, JsonSchema> = {}
+
+  const definitionName = (type: ts.Type): string | undefined => {
+    if (!(type.flags & ts.TypeFlags.Object)) return undefined
+    const symbol = type.aliasSymbol ?? type.getSymbol()
+    return symbol && exported.get(symbol.name) === symbol ? symbol.name : undefined
+  }
+
+  const convert = (type: ts.Type): JsonSchema => {
+    const name = definitionName(type)
+    if (name && name !== ROOT_TYPE) {
+      if (!definitions[name]) {
+        definitions[name] = {}
+        const symbol = exported.get(name)!
+        const description = documentation(symbol, checker)
+        Object.assign(definitions[name], {
+          ...(description && { description }),
+          ...convertObject(type, true),
+        })
+      }
+      return { $ref: `#/definitions/${name}` }
+    }
+
+    if (type.flags & ts.TypeFlags.Boolean) return { type: "boolean" }
+    if (type.flags & ts.TypeFlags.String) return { type: "string" }
+    if (type.flags & ts.TypeFlags.Number) return { type: "number" }
+
+    const literal = literalValue(type, checker)
+    if (literal !== undefined) return { enum: [literal] }
+
+    if (type.isUnion()) return convertUnion(type.types)
+    if (checker.isArrayType(type)) {
+      return { type: "array", items: convert(checker.getTypeArguments(type as ts.TypeReference)[0]!) }
+    }
+    if (type.flags & ts.TypeFlags.Object) return convertObject(type, true)
+
+    throw new Error(`Cannot express type ${checker.typeToString(type)} in JSON Schema`)
+  }
+
+  const convertUnion = (members: ts.Type[]): JsonSchema => {
+    const types = members.filter((t) => !(t.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Null)))
+    const literals = types.map((t) => literalValue(t, checker))
+    if (literals.every((value) => value !== undefined)) {
+      // `boolean` reaches us as `false | true`; list it the way it is written.
+      const values = literals as Array<string | number | boolean>
+      const booleans = [true, false].filter((value) => values.includes(value))
+      return { enum: [...booleans, ...values.filter((value) => typeof value !== "boolean")] }
+    }
+
+    const booleanParts = types.filter((t) => t.flags & ts.TypeFlags.BooleanLiteral)
+    const rest = types.filter((t) => !(t.flags & ts.TypeFlags.BooleanLiteral))
+    const branches = [...(booleanParts.length === 2 ? [{ type: "boolean" as const }] : []), ...rest.map(convert)]
+    return branches.length === 1 ? branches[0]! : { anyOf: branches }
+  }
+
+  const convertObject = (type: ts.Type, withRequired: boolean): JsonSchema => {
+    const indexInfo = checker.getIndexInfoOfType(type, ts.IndexKind.String)
+    if (indexInfo) {
+      return { type: "object", additionalProperties: convert(indexInfo.type) }
+    }
+
+    const properties: Record<string, JsonSchema> = {}
+    const required: string[] = []
+    for (const property of checker.getPropertiesOfType(type)) {
+      const propertyType = checker.getNonNullableType(checker.getTypeOfSymbol(property))
+      const description = documentation(property, checker)
+      properties[property.name] = {
+        ...(description && { description }),
+        ...convert(propertyType),
+        ...numericTags(property),
+      }
+      if (!(property.flags & ts.SymbolFlags.Optional)) required.push(property.name)
+    }
+
+    return {
+      type: "object",
+      properties,
+      ...(withRequired && required.length > 0 && { required }),
+      additionalProperties: false,
+    }
+  }
+
+  const rootType = checker.getDeclaredTypeOfSymbol(root)
+  const body = convertObject(rootType, false)
+
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    title: "preload-skills config",
+    description: "Configuration for opencode-plugin-preload-skills.",
+    ...body,
+    definitions: Object.fromEntries(Object.entries(definitions).sort(([a], [b]) => a.localeCompare(b))),
+  }
+}
@@ -0,0 +1,34 @@
+import configSchema from "./schema.json"
+
+/** The subset of JSON Schema (draft-07) the generator emits and the validator understands. */
+export interface JsonSchema {
+  $schema?: string
+  $ref?: string
+  title?: string
+  description?: string
+  type?: "object" | "array" | "string" | "number" | "boolean"
+  enum?: Array<string | number | boolean>
+  anyOf?: JsonSchema[]
+  items?: JsonSchema
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  minimum?: number
+  exclusiveMinimum?: number
+  definitions?: Record<string, JsonSchema>
+}
+
+/** The schema for config files, generated from `PreloadSkillsConfig`. */
+export const CONFIG_SCHEMA = configSchema as JsonSchema
+
+const REF_PREFIX = "#/definitions/"
+
+/** Follows a `$ref` into the config schema's definitions, returning the definition's name too. */
+export function resolveRef(schema: JsonSchema): { schema: JsonSchema; definition?: string } {
+  if (!schema.$ref?.startsWith(REF_PREFIX)) return { schema }
+
+  const definition = schema.$ref.slice(REF_PREFIX.length)
+  const resolved = CONFIG_SCHEMA.definitions?.[definition]
+  if (!resolved) throw new Error(`Unknown schema reference ${schema.$ref}`)
+  return { schema: resolved, definition }
+}
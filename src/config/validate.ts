@@ -0,0 +1,269 @@
+import type { ConfigDiagnostic, DiagnosticSeverity } from "../types.js"
+import { formatConfigPath } from "./merge.js"
+import { CONFIG_SCHEMA, resolveRef, type JsonSchema } from "./schema.js"
+
+type Report = (severity: DiagnosticSeverity, path: string, message: string) => void
+
+interface UnknownKeyPolicy {
+  kind: string
+  severity: DiagnosticSeverity
+}
+
+/**
+ * How unknown keys are reported, by schema definition (the config root has
+ * none). An unknown condition is an error because the loader drops the whole
+ * entry; elsewhere the key is simply ignored.
+ */
+const UNKNOWN_KEYS: Record<string, UnknownKeyPolicy> = {
+  "": { kind: "option", severity: "warning" },
+  ConfigProfile: { kind: "option", severity: "warning" },
+  ConditionalSkill: { kind: "key", severity: "warning" },
+  ConditionCheck: { kind: "condition", severity: "error" },
+  SkillSettings: { kind: "skill setting", severity: "warning" },
+}
+
+/**
+ * Values the schema no longer accepts but the loader still reads, by option,
+ * with what to write instead. Reported as warnings whatever the config version.
+ */
+const DEPRECATED_VALUES: Record<string, Array<{ value: unknown; replacement: string }>> = {
+  useMinification: [{ value: true, replacement: '"standard"' }],
+}
+
+function deprecatedValue(key: string, value: unknown, definition: string) {
+  if (definition !== "" && definition !== "ConfigProfile") return undefined
+  if (!Object.hasOwn(DEPRECATED_VALUES, key)) return undefined
+  return DEPRECATED_VALUES[key]!.find((entry) => entry.value === value)
+}
+
+/** Checks the schema cannot express, by schema definition. */
+const DEFINITION_CHECKS: Record<string, (value: Record<string, unknown>, path: string, report: Report) => void> = {
+  ConditionCheck: (value, path, report) => {
+    if (Object.keys(value).length === 0) {
+      report("warning", path, "Condition has no checks, so the skill always loads")
+    }
+  },
+}
+
+export class ConfigValidationError extends Error {
+  constructor(readonly diagnostics: ConfigDiagnostic[]) {
+    super(
+      `Invalid preload-skills config:\n${diagnostics.map((d) => `  ${formatDiagnostic(d)}`).join("\n")}`
+    )
+    this.name = "ConfigValidationError"
+  }
+}
+
+export function formatDiagnostic(diagnostic: ConfigDiagnostic): string {
+  const file = diagnostic.line ? `${diagnostic.file}:${diagnostic.line}` : diagnostic.file
+  const location = diagnostic.path ? `${file}: ${diagnostic.path}` : file
+  return `${location}: ${diagnostic.message}`
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "an array"
+  if (typeof value === "object") return "an object"
+  return `${typeof value} ${JSON.stringify(value)}`
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0]!
+    row[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j]!
+      row[j] = Math.min(row[j]! + 1, row[j - 1]! + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1))
+      prev = current
+    }
+  }
+  return row[b.length]!
+}
+
+function suggestion(value: string, candidates: string[]): string {
+  const closest = candidates
+    .map((candidate) => ({ candidate, distance: editDistance(value.toLowerCase(), candidate.toLowerCase()) }))
+    .sort((a, b) => a.distance - b.distance)[0]
+
+  if (!closest || closest.distance > Math.max(2, Math.floor(value.length / 3))) return ""
+  return ` Did you mean "${closest.candidate}"?`
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function withArticle(noun: string): string {
+  return `${/^[aeiou]/.test(noun) ? "an" : "a"} ${noun}`
+}
+
+/**
+ * Describes what a schema accepts: "an array of strings" in the singular,
+ * "arrays of strings" in the plural.
+ */
+function describeSchema(schema: JsonSchema, plural = false): string {
+  const resolved = resolveRef(schema).schema
+  const s = plural ? "s" : ""
+  const noun = (text: string) => (plural ? text : withArticle(text))
+
+  if (resolved.anyOf) return resolved.anyOf.map((branch) => describeSchema(branch, plural)).join(" or ")
+  if (resolved.enum) return `one of ${resolved.enum.map((value) => JSON.stringify(value)).join(", ")}`
+
+  switch (resolved.type) {
+    case "array":
+      return noun(resolved.items ? `array${s} of ${describeSchema(resolved.items, true)}` : `array${s}`)
+    case "object":
+      return noun(
+        typeof resolved.additionalProperties === "object"
+          ? `object${s} mapping keys to ${describeSchema(resolved.additionalProperties, true)}`
+          : `object${s}`
+      )
+    case "number":
+      if (resolved.exclusiveMinimum === 0) return noun(`positive number${s}`)
+      if (resolved.minimum !== undefined) return noun(`number${s} of at least ${resolved.minimum}`)
+      return noun(`number${s}`)
+    default:
+      return noun(`${resolved.type ?? "value"}${s}`)
+  }
+}
+
+function matchesType(value: unknown, schema: JsonSchema): boolean {
+  const resolved = resolveRef(schema).schema
+  if (resolved.anyOf) return resolved.anyOf.some((branch) => matchesType(value, branch))
+  if (resolved.enum) return resolved.enum.includes(value as string | number | boolean)
+
+  switch (resolved.type) {
+    case "object":
+      return isObject(value)
+    case "array":
+      return Array.isArray(value)
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+    case "string":
+    case "boolean":
+      return typeof value === resolved.type
+    default:
+      return true
+  }
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  definition: string,
+  path: string,
+  report: Report
+): void {
+  const properties = schema.properties ?? {}
+
+  for (const key of schema.required ?? []) {
+    if (!Object.hasOwn(value, key)) {
+      report("error", formatConfigPath(path, key), `Missing required key "${key}"`)
+    }
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    const itemPath = formatConfigPath(path, key)
+    const property = Object.hasOwn(properties, key) ? properties[key] : undefined
+
+    const deprecated = deprecatedValue(key, item, definition)
+    if (deprecated) {
+      report("warning", itemPath, `\`${JSON.stringify(item)}\` is deprecated, use ${deprecated.replacement}`)
+    } else if (property) {
+      validateValue(item, property, itemPath, report)
+    } else if (typeof schema.additionalProperties === "object") {
+      validateValue(item, schema.additionalProperties, itemPath, report)
+    } else if (schema.additionalProperties === false) {
+      reportUnknownKey(key, Object.keys(properties), definition, itemPath, report)
+    }
+  }
+
+  DEFINITION_CHECKS[definition]?.(value, path, report)
+}
+
+function reportUnknownKey(
+  key: string,
+  known: string[],
+  definition: string,
+  path: string,
+  report: Report
+): void {
+  if (definition === "ConfigProfile" && Object.hasOwn(CONFIG_SCHEMA.properties ?? {}, key)) {
+    report("error", path, `"${key}" cannot be set inside a profile`)
+    return
+  }
+
+  const { kind, severity } = UNKNOWN_KEYS[definition] ?? { kind: "key", severity: "warning" }
+  report(severity, path, `Unknown ${kind} "${key}".${suggestion(key, known)}`)
+}
+
+function validateValue(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  report: Report,
+  definition = ""
+): void {
+  const resolved = resolveRef(schema)
+  if (resolved.definition !== undefined) {
+    validateValue(value, resolved.schema, path, report, resolved.definition)
+    return
+  }
+
+  if (schema.anyOf) {
+    const branch = schema.anyOf.find((candidate) => matchesType(value, candidate))
+    if (branch) {
+      validateValue(value, branch, path, report, definition)
+    } else {
+      report("error", path, `Expected ${describeSchema(schema)}, got ${describeType(value)}`)
+    }
+    return
+  }
+
+  if (schema.enum) {
+    if (!matchesType(value, schema)) {
+      const strings = schema.enum.filter((option): option is string => typeof option === "string")
+      const hint = typeof value === "string" ? suggestion(value, strings) : ""
+      report("error", path, `Expected ${describeSchema(schema)}, got ${describeType(value)}.${hint}`)
+    }
+    return
+  }
+
+  const outOfRange =
+    typeof value === "number" &&
+    ((schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) ||
+      (schema.minimum !== undefined && value < schema.minimum))
+  if (!matchesType(value, schema) || outOfRange) {
+    report("error", path, `Expected ${describeSchema(schema)}, got ${describeType(value)}`)
+    return
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => validateValue(item, schema.items!, formatConfigPath(path, i), report))
+  } else if (isObject(value) && schema.type === "object") {
+    validateObject(value, schema, definition, path, report)
+  }
+}
+
+/**
+ * Checks a raw config object against the generated config schema and returns
+ * every problem found, with the JSON path of the offending value. Errors mark
+ * values the loader will drop; warnings mark values that are ignored or
+ * probably not what was intended. `basePath` prefixes every path, for
+ * options nested in another file such as `opencode.json`.
+ */
+export function validateConfig(raw: unknown, file: string, basePath = ""): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = []
+  const report: Report = (severity, path, message) => {
+    diagnostics.push({ severity, file, path, message })
+  }
+
+  if (!isObject(raw)) {
+    report("error", basePath, `Expected the config to be an object, got ${describeType(raw)}`)
+    return diagnostics
+  }
+
+  validateValue(raw, CONFIG_SCHEMA, basePath, report)
+  return diagnostics
+}
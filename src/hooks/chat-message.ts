@@ -1,11 +1,13 @@
 import type { UserMessage, Part } from "@opencode-ai/sdk"
 import type { PluginContext } from "../types.js"
 import { formatSkillsForInjection } from "../skills/loader.js"
+import { hasConditionalSections } from "../skills/sections.js"
 import { textContainsKeyword } from "../utils.js"
 
 interface ChatMessageInput {
   sessionID: string
   agent?: string
+  model?: { providerID: string; modelID: string }
 }
 
 interface ChatMessageOutput {
@@ -14,13 +16,19 @@ interface ChatMessageOutput {
 }
 
 export function createChatMessageHook(ctx: PluginContext) {
-  const { config, sessionManager, skillResolver, initialSkills, initialFormattedContent, log, toast } = ctx
-  const useSystemPromptInjection = config.injectionMethod === "systemPrompt"
+  const { sessionManager, log, toast } = ctx
 
   return async (input: ChatMessageInput, output: ChatMessageOutput): Promise<void> => {
     if (!input.sessionID) return
 
+    const { config, skillResolver, initialSkills, initialFormattedContent } = ctx.getSessionProfile(
+      input.sessionID,
+      input.agent
+    )
     const state = sessionManager.getState(input.sessionID)
+    if (input.agent) state.agent = input.agent
+    if (input.model) await sessionManager.setModel(input.sessionID, `${input.model.providerID}/${input.model.modelID}`)
+    const sections = sessionManager.getSectionContext(input.sessionID)
     const firstTextPart = output.parts.find((p) => p.type === "text")
     if (!firstTextPart || !("text" in firstTextPart)) return
 
@@ -31,10 +39,12 @@ export function createChatMessageHook(ctx: PluginContext) {
         config.agentSkills[input.agent]!,
         state.totalTokensUsed,
         input.sessionID,
-        "agent"
+        "agent",
+        state,
+        sections
       )
       if (result.skills.length > 0) {
-        sessionManager.queueSkills(input.sessionID, result.skills, "agent")
+        sessionManager.queueSkills(input.sessionID, result.skills, "agent", result, config)
       }
     }
 
@@ -45,20 +55,35 @@ export function createChatMessageHook(ctx: PluginContext) {
             skillNames,
             state.totalTokensUsed,
             input.sessionID,
-            "content"
+            "content",
+            state,
+            sections
           )
           if (result.skills.length > 0) {
-            sessionManager.queueSkills(input.sessionID, result.skills, "content")
+            sessionManager.queueSkills(input.sessionID, result.skills, "content", result, config)
           }
         }
       }
     }
 
-    if (!useSystemPromptInjection) {
+    if (config.injectionMethod !== "systemPrompt") {
       const contentToInject: string[] = []
 
       if (!state.initialSkillsInjected && initialFormattedContent) {
-        contentToInject.push(initialFormattedContent)
+        // The startup formatting keeps every section; redo it when some only apply to this session.
+        contentToInject.push(
+          initialSkills.some((skill) => hasConditionalSections(skill.content))
+            ? formatSkillsForInjection(
+                initialSkills.map((skill) => sessionManager.viewSkill(input.sessionID, skill)),
+                {
+                  useSummaries: config.useSummaries,
+                  useMinification: config.useMinification,
+                  skillSettings: config.skillSettings,
+                  sections,
+                }
+              )
+            : initialFormattedContent
+        )
         state.initialSkillsInjected = true
         const names = initialSkills.map((s) => s.name)
         log("info", "Injected initial preloaded skills", {
@@ -74,6 +99,7 @@ export function createChatMessageHook(ctx: PluginContext) {
           useSummaries: config.useSummaries,
           useMinification: config.useMinification,
           skillSettings: config.skillSettings,
+          sections,
         })
         if (formatted) {
           contentToInject.push(formatted)
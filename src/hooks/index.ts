@@ -4,25 +4,30 @@ import { createChatMessageHook } from "./chat-message.js"
 import { createToolExecuteHooks } from "./tool-execute.js"
 import { createLifecycleHooks } from "./lifecycle.js"
 import { createLoadedSkillsTool } from "../tools/loaded-skills.js"
+import { createConfigInfoTool } from "../tools/config-info.js"
+import { createMigrateConfigTool } from "../tools/migrate-config.js"
 
-export function createHooks(ctx: PluginContext): Record<string, unknown> {
+export function createHooks(ctx: PluginContext, dispose?: () => void): Record<string, unknown> {
   const { before, after } = createToolExecuteHooks(ctx)
-  const { compacting, event } = createLifecycleHooks(ctx)
-  const useSystemPromptInjection = ctx.config.injectionMethod === "systemPrompt"
+  const { compacting, event } = createLifecycleHooks(ctx, dispose)
+  // Tools are registered once, so changing `enableTools` takes a restart;
+  // the injection method is read from the current config on every call.
   const enableTools = ctx.config.enableTools !== false
 
   return {
-    ...(useSystemPromptInjection && {
-      "experimental.chat.system.transform": createSystemPromptHook(ctx),
-    }),
+    "experimental.chat.system.transform": createSystemPromptHook(ctx),
     "chat.message": createChatMessageHook(ctx),
     "tool.execute.before": before,
     "tool.execute.after": after,
     "experimental.session.compacting": compacting,
     event,
+    // Tools take no arguments, since describing them needs zod from the plugin
+    // package at runtime. Bundled skill resources are read with the built-in `read` tool.
     ...(enableTools && {
       tool: {
         loaded_skills: createLoadedSkillsTool(ctx.sessionManager, ctx.toast),
+        preload_skills_config: createConfigInfoTool(ctx),
+        preload_skills_migrate: createMigrateConfigTool(ctx),
       },
     }),
   }
@@ -15,13 +15,14 @@ interface EventInput {
   event: Event
 }
 
-export function createLifecycleHooks(ctx: PluginContext) {
-  const { config, sessionManager, log } = ctx
+export function createLifecycleHooks(ctx: PluginContext, dispose?: () => void) {
+  const { sessionManager, log } = ctx
 
   const compacting = async (
     input: CompactingInput,
     output: CompactingOutput
   ): Promise<void> => {
+    const { config } = ctx.getSessionProfile(input.sessionID)
     if (!config.persistAfterCompaction) return
 
     const allLoadedSkills = sessionManager.getAllLoadedSkills(input.sessionID)
@@ -31,6 +32,7 @@ export function createLifecycleHooks(ctx: PluginContext) {
       useSummaries: config.useSummaries,
       useMinification: config.useMinification,
       skillSettings: config.skillSettings,
+      sections: sessionManager.getSectionContext(input.sessionID),
     })
 
     output.context.push(
@@ -52,6 +54,9 @@ export function createLifecycleHooks(ctx: PluginContext) {
       const sessionID = event.properties.sessionID as string
       sessionManager.cleanup(sessionID)
     }
+    if (event.type === "server.instance.disposed") {
+      dispose?.()
+    }
   }
 
   return { compacting, event }
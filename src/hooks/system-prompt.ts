@@ -12,21 +12,26 @@ interface SystemPromptOutput {
 }
 
 export function createSystemPromptHook(ctx: PluginContext) {
-  const { config, sessionManager, initialSkills, log, toast } = ctx
+  const { sessionManager, log, toast } = ctx
 
   return async (input: SystemPromptInput, output: SystemPromptOutput): Promise<void> => {
     if (!input.sessionID) return
 
+    const { config, initialSkills } = ctx.getSessionProfile(input.sessionID)
+    await sessionManager.setModel(input.sessionID, `${input.model.providerID}/${input.model.id}`)
     const state = sessionManager.getState(input.sessionID)
+    // With `chatMessage` injection the hook only records the model.
+    if (config.injectionMethod !== "systemPrompt") return
     const skillsToInject: ParsedSkill[] = []
 
-    if (initialSkills.length > 0) {
-      skillsToInject.push(...initialSkills)
+    // Initial skills displaced by a conflicting skill are no longer loaded.
+    for (const skill of initialSkills) {
+      if (state.displacedSkills?.has(skill.name)) continue
+      skillsToInject.push(sessionManager.viewSkill(input.sessionID, skill))
     }
 
-    for (const name of state.loadedSkills) {
-      const skill = sessionManager.getCachedSkill(name)
-      if (skill && !skillsToInject.find((s) => s.name === name)) {
+    for (const skill of sessionManager.getAllLoadedSkills(input.sessionID)) {
+      if (!skillsToInject.find((s) => s.name === skill.name)) {
         skillsToInject.push(skill)
       }
     }
@@ -46,6 +51,7 @@ export function createSystemPromptHook(ctx: PluginContext) {
         useSummaries: config.useSummaries,
         useMinification: config.useMinification,
         skillSettings: config.skillSettings,
+        sections: sessionManager.getSectionContext(input.sessionID),
       })
       output.system.push(formatted)
 
@@ -1,5 +1,8 @@
-import { extname } from "node:path"
+import { extname, resolve } from "node:path"
 import type { PluginContext } from "../types.js"
+import { getSkillsForExtension, getSkillsForPath } from "../skills/resolver.js"
+import { pathRelativeTo } from "../config/nested.js"
+import { mergeTriggerMap } from "../skills/triggers.js"
 
 const FILE_TOOLS = ["read", "edit", "write", "glob", "grep"]
 
@@ -27,7 +30,7 @@ function getFilePathFromArgs(args: Record<string, unknown>): string | null {
 }
 
 export function createToolExecuteHooks(ctx: PluginContext) {
-  const { config, sessionManager, skillResolver, log } = ctx
+  const { sessionManager, nestedConfigs, log } = ctx
 
   const before = async (
     input: ToolExecuteInput,
@@ -53,6 +56,7 @@ export function createToolExecuteHooks(ctx: PluginContext) {
     if (!FILE_TOOLS.includes(input.tool)) return
     if (!input.sessionID) return
 
+    const { config, skillResolver } = ctx.getSessionProfile(input.sessionID)
     const filePath = sessionManager.getFilePath(input.callID)
     sessionManager.clearFilePath(input.callID)
 
@@ -66,41 +70,65 @@ export function createToolExecuteHooks(ctx: PluginContext) {
 
     const state = sessionManager.getState(input.sessionID)
     const ext = extname(filePath)
+    if (ext) {
+      state.fileTypes ??= new Set()
+      state.fileTypes.add(ext.toLowerCase())
+    }
+    const sections = sessionManager.getSectionContext(input.sessionID)
+
+    // The nearest nested config replaces the project's file maps for files
+    // below it; triggers declared by skills themselves still apply there.
+    const nested = await nestedConfigs.find(filePath)
+    const fileTypeSkills = nested
+      ? mergeTriggerMap(nested.fileTypeSkills, ctx.skillTriggers.fileTypeSkills)
+      : config.fileTypeSkills
+    const pathPatterns = nested ? nested.pathPatterns : config.pathPatterns
+    const absolutePath = resolve(ctx.projectDir, filePath)
+    const patternPath = pathRelativeTo(nested?.dir ?? ctx.projectDir, absolutePath)
 
     log("debug", "Processing file access", {
       tool: input.tool,
       filePath,
       extension: ext,
+      nestedConfig: nested?.path,
     })
 
-    if (ext && config.fileTypeSkills) {
-      const extSkillNames = skillResolver.getSkillsForExtension(ext)
+    if (ext && fileTypeSkills) {
+      const extSkillNames = getSkillsForExtension(ext, fileTypeSkills)
       if (extSkillNames.length > 0) {
         log("debug", "Found skills for extension", { ext, skills: extSkillNames })
         const result = skillResolver.loadWithBudget(
           extSkillNames,
           state.totalTokensUsed,
           input.sessionID,
-          "fileType"
+          "fileType",
+          state,
+          sections
         )
         if (result.skills.length > 0) {
-          sessionManager.queueSkills(input.sessionID, result.skills, "fileType")
+          sessionManager.queueSkills(input.sessionID, result.skills, "fileType", result, config)
         }
       }
     }
 
-    if (config.pathPatterns) {
-      const pathSkillNames = skillResolver.getSkillsForPath(filePath)
+    if (pathPatterns) {
+      // Skill-declared paths are relative to the project even below a nested config.
+      const skillDeclared = nested
+        ? getSkillsForPath(pathRelativeTo(ctx.projectDir, absolutePath), ctx.skillTriggers.pathPatterns)
+        : []
+      const pathSkillNames = [...new Set([...getSkillsForPath(patternPath, pathPatterns), ...skillDeclared])]
       if (pathSkillNames.length > 0) {
         log("debug", "Found skills for path pattern", { filePath, skills: pathSkillNames })
         const result = skillResolver.loadWithBudget(
           pathSkillNames,
           state.totalTokensUsed,
           input.sessionID,
-          "path"
+          "path",
+          state,
+          sections
         )
         if (result.skills.length > 0) {
-          sessionManager.queueSkills(input.sessionID, result.skills, "path")
+          sessionManager.queueSkills(input.sessionID, result.skills, "path", result, config)
         }
       }
     }
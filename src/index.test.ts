@@ -1,13 +1,15 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
-import { mkdirSync, writeFileSync, rmSync } from "node:fs"
+import { mkdirSync, writeFileSync, readFileSync, rmSync } from "node:fs"
 import { join } from "node:path"
 import { PreloadSkillsPlugin } from "./index.js"
-import type { PluginInput } from "@opencode-ai/plugin"
+import type { Hooks, PluginInput } from "@opencode-ai/plugin"
 
 describe("PreloadSkillsPlugin", () => {
   const testDir = join(process.cwd(), ".test-plugin")
   const opencodeDir = join(testDir, ".opencode")
   const skillsDir = join(opencodeDir, "skills")
+  const homeDir = join(testDir, "home")
+  const originalHome = process.env.HOME
 
   const createMockContext = (): PluginInput => ({
     client: {
@@ -42,10 +44,12 @@ describe("PreloadSkillsPlugin", () => {
   })
 
   beforeEach(() => {
-    mkdirSync(testDir, { recursive: true })
+    mkdirSync(homeDir, { recursive: true })
+    process.env.HOME = homeDir
   })
 
   afterEach(() => {
+    process.env.HOME = originalHome
     rmSync(testDir, { recursive: true, force: true })
   })
 
@@ -123,6 +127,24 @@ describe("PreloadSkillsPlugin", () => {
         })
       )
     })
+
+    it("does not log prefixed or section references that loaded as missing", async () => {
+      createSkill("exists", "---\nname: exists\ndescription: E\n---\nContent")
+      createSkill("api", "---\nname: api\ndescription: API\n---\nIntro\n\n## Errors\n\nError codes")
+      createConfig({ skills: ["project:exists", "api#errors", "missing"] })
+
+      const ctx = createMockContext()
+      await PreloadSkillsPlugin(ctx)
+
+      expect(ctx.client.app.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.objectContaining({
+            message: "Loaded 2 initial skills",
+            extra: expect.objectContaining({ missing: ["missing"] }),
+          }),
+        })
+      )
+    })
   })
 
   describe("chat.message hook", () => {
@@ -183,6 +205,23 @@ describe("PreloadSkillsPlugin", () => {
       expect(output.parts[0]!.text).toContain("Database Content")
     })
 
+    it("loads a triggered skill created after a trigger missed it", async () => {
+      createConfig({ contentTriggers: { foo: ["late"] }, injectionMethod: "chatMessage", hotReload: false })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      await (hooks["chat.message"] as Function)({ sessionID: "first-session" }, createMsgOutput("foo"))
+      createSkill("late", "---\nname: late\ndescription: Late\n---\nLate Content")
+
+      const output = createMsgOutput("foo")
+      await (hooks["chat.message"] as Function)({ sessionID: "second-session" }, output)
+      const result = await (hooks["tool"] as any).loaded_skills.execute({}, { sessionID: "second-session" })
+
+      expect(output.parts[0]!.text).toContain("Late Content")
+      expect(result).toContain("**late**")
+    })
+
     it("handles missing sessionID gracefully", async () => {
       createConfig({ skills: [] })
 
@@ -324,6 +363,86 @@ describe("PreloadSkillsPlugin", () => {
     })
   })
 
+  describe("nested configs", () => {
+    const touchFile = async (hooks: Hooks, filePath: string, callID: string) => {
+      await (hooks["tool.execute.before"] as Function)(
+        { tool: "read", sessionID: "test-session", callID },
+        { args: { filePath } }
+      )
+      await (hooks["tool.execute.after"] as Function)(
+        { tool: "read", sessionID: "test-session", callID },
+        { title: "", output: "", metadata: {} }
+      )
+    }
+
+    const injectedText = async (hooks: Hooks) => {
+      const output = createMsgOutput("Message")
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session" }, output)
+      return output.parts[0]!.text
+    }
+
+    const createNestedConfig = (dir: string, config: Record<string, unknown>) => {
+      mkdirSync(join(testDir, dir), { recursive: true })
+      writeFileSync(join(testDir, dir, "preload-skills.json"), JSON.stringify(config))
+    }
+
+    beforeEach(() => {
+      createSkill("root-ts", "---\nname: root-ts\ndescription: Root TS\n---\nRoot TS Content")
+      createSkill("web-ts", "---\nname: web-ts\ndescription: Web TS\n---\nWeb TS Content")
+      createSkill("web-components", "---\nname: web-components\ndescription: Components\n---\nComponents Content")
+      createConfig({ fileTypeSkills: { ".ts": ["root-ts"] }, injectionMethod: "chatMessage" })
+      createNestedConfig("packages/web", {
+        fileTypeSkills: { ".ts": ["web-ts"] },
+        pathPatterns: { "src/components/**": ["web-components"] },
+      })
+    })
+
+    it("uses the nearest enclosing config's file maps", async () => {
+      const hooks = await PreloadSkillsPlugin(createMockContext())
+
+      await touchFile(hooks, "packages/web/src/index.ts", "call-1")
+
+      const text = await injectedText(hooks)
+      expect(text).toContain("Web TS Content")
+      expect(text).not.toContain("Root TS Content")
+    })
+
+    it("matches path patterns relative to the nested config's directory", async () => {
+      const hooks = await PreloadSkillsPlugin(createMockContext())
+
+      await touchFile(hooks, join(testDir, "packages/web/src/components/Button.tsx"), "call-1")
+
+      expect(await injectedText(hooks)).toContain("Components Content")
+    })
+
+    it("falls back to the project config outside nested directories", async () => {
+      const hooks = await PreloadSkillsPlugin(createMockContext())
+
+      await touchFile(hooks, "services/billing/index.ts", "call-1")
+
+      const text = await injectedText(hooks)
+      expect(text).toContain("Root TS Content")
+      expect(text).not.toContain("Web TS Content")
+    })
+
+    it("warns about options that only apply at the project root", async () => {
+      createNestedConfig("services/billing", { maxTokens: 100 })
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      await touchFile(hooks, "services/billing/index.ts", "call-1")
+
+      expect(ctx.client.app.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.objectContaining({
+            level: "warn",
+            message: expect.stringContaining('"maxTokens" is ignored in nested configs'),
+          }),
+        })
+      )
+    })
+  })
+
   describe("experimental.session.compacting hook", () => {
     it("adds loaded skills to compaction context", async () => {
       createSkill("test-skill", "---\nname: test-skill\ndescription: Test\n---\nContent")
@@ -512,6 +631,83 @@ describe("PreloadSkillsPlugin", () => {
       expect(output.parts[0]!.text).toContain("Small")
       expect(output.parts[0]!.text).not.toContain("xxxx")
     })
+
+    it("packs triggered skills by priority and logs the ones left out", async () => {
+      createSkill("guide", "---\nname: guide\ndescription: \"\"\nsummary: \"\"\n---\n" + "Guide ".repeat(60))
+      createSkill("security", "---\nname: security\ndescription: Security\npriority: 5\n---\nSecurity Content")
+      createConfig({
+        contentTriggers: { deploy: ["guide", "security"] },
+        maxTokens: 103,
+        budgetStrategy: "priority",
+        injectionMethod: "chatMessage",
+      })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      const output = createMsgOutput("Deploy it")
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session" }, output)
+
+      expect(output.parts[0]!.text).toContain("Security Content")
+      expect(output.parts[0]!.text).not.toContain("Guide Guide")
+      expect(ctx.client.app.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.objectContaining({
+            level: "info",
+            message: expect.stringContaining('Left out skill "guide" for the token budget'),
+          }),
+        })
+      )
+    })
+  })
+
+  describe("skill tiers", () => {
+    it("injects a triggered skill at a lower tier when the full skill does not fit", async () => {
+      createSkill(
+        "react",
+        `---\nname: react\ndescription: React\ncondensed: |\n  Use function components.\n---\n${"Detailed guidance. ".repeat(100)}`
+      )
+      createConfig({ contentTriggers: { react: ["react"] }, maxTokens: 100, injectionMethod: "chatMessage" })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      const output = createMsgOutput("Build a react form")
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session" }, output)
+      const result = await (hooks["tool"] as any).loaded_skills.execute({}, { sessionID: "test-session" })
+
+      expect(output.parts[0]!.text).toContain("Use function components.")
+      expect(output.parts[0]!.text).not.toContain("Detailed guidance")
+      expect(result).toContain("**react** (project, condensed, ")
+    })
+
+    it("keeps each session's initial tier when profiles load the same skill at different tiers", async () => {
+      createSkill(
+        "react",
+        `---\nname: react\ndescription: React\ncondensed: |\n  Use function components.\n---\n${"Detailed guidance. ".repeat(100)}`
+      )
+      createConfig({
+        skills: ["react"],
+        maxTokens: 100,
+        profiles: { plan: { maxTokens: 100000 } },
+        injectionMethod: "chatMessage",
+      })
+
+      const hooks = await PreloadSkillsPlugin(createMockContext())
+      const loadedSkills = (sessionID: string) =>
+        (hooks["tool"] as any).loaded_skills.execute({}, { sessionID }) as Promise<string>
+
+      const build = createMsgOutput("Build a form")
+      await (hooks["chat.message"] as Function)({ sessionID: "build-session" }, build)
+      const plan = createMsgOutput("Plan a form")
+      await (hooks["chat.message"] as Function)({ sessionID: "plan-session", agent: "plan" }, plan)
+
+      expect(build.parts[0]!.text).toContain("Use function components.")
+      expect(build.parts[0]!.text).not.toContain("Detailed guidance")
+      expect(plan.parts[0]!.text).toContain("Detailed guidance")
+      expect(await loadedSkills("build-session")).toContain("**react** (project, condensed, ")
+      expect(await loadedSkills("plan-session")).toContain("**react** (project, full, ")
+    })
   })
 
   describe("useSummaries", () => {
@@ -815,6 +1011,86 @@ describe("PreloadSkillsPlugin", () => {
       expect(result).toContain("used")
     })
 
+    it("counts skills with the tokenizer of the session's model", async () => {
+      const code = "const { data } = await fetch(`/api/${id}`).then((r) => r.json());\n".repeat(20)
+      createSkill("code-skill", `---\nname: code-skill\ndescription: Code\n---\n${code}`)
+      createConfig({ contentTriggers: { fetch: ["code-skill"] } })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      await (hooks["experimental.chat.system.transform"] as Function)(
+        { sessionID: "test-session", model: { providerID: "anthropic", id: "claude-sonnet-4" } },
+        { system: [] }
+      )
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session" }, createMsgOutput("Add a fetch"))
+      const result = await (hooks["tool"] as any).loaded_skills.execute({}, { sessionID: "test-session" })
+
+      const tokens = Number(/\*\*code-skill\*\* \(project, full, (\d+) tokens\)/.exec(result)?.[1])
+      expect(result).toContain("counted with the claude-estimate tokenizer")
+      expect(result).toContain(`Token budget: ${tokens} used`)
+      expect(tokens).toBeGreaterThan(Math.ceil(code.length / 4))
+    })
+
+    it("counts initial skills again once the session's model is known", async () => {
+      const code = "const { data } = await fetch(`/api/${id}`).then((r) => r.json());\n".repeat(20)
+      createSkill("code-skill", `---\nname: code-skill\ndescription: Code\n---\n${code}`)
+      createConfig({ skills: ["code-skill"] })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      const before = await (hooks["tool"] as any).loaded_skills.execute({}, { sessionID: "test-session" })
+      await (hooks["experimental.chat.system.transform"] as Function)(
+        { sessionID: "test-session", model: { providerID: "anthropic", id: "claude-sonnet-4" } },
+        { system: [] }
+      )
+      const after = await (hooks["tool"] as any).loaded_skills.execute({}, { sessionID: "test-session" })
+
+      const used = (result: string) => Number(/Token budget: (\d+) used/.exec(result)?.[1])
+      const tokens = Number(/\*\*code-skill\*\* \(project, full, (\d+) tokens\)/.exec(after)?.[1])
+      expect(before).toContain("counted with the heuristic tokenizer")
+      expect(after).toContain("counted with the claude-estimate tokenizer")
+      expect(used(after)).toBe(tokens)
+      expect(used(after)).toBeGreaterThan(used(before))
+    })
+
+    it("counts with tokenizer modules from the tokenizers option", async () => {
+      createSkill("my-skill", "---\nname: my-skill\ndescription: Mine\n---\none two three four")
+      mkdirSync(opencodeDir, { recursive: true })
+      writeFileSync(
+        join(testDir, "word-count.mjs"),
+        "export default { id: 'words', count: (text) => text.split(/\\s+/).filter(Boolean).length }"
+      )
+      writeFileSync(join(testDir, "broken.mjs"), "export default 42")
+      createConfig({
+        skills: ["my-skill"],
+        tokenizers: { "acme/*": "./word-count.mjs", "other/*": "./broken.mjs" },
+      })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+      await (hooks["experimental.chat.system.transform"] as Function)(
+        { sessionID: "test-session", model: { providerID: "acme", id: "model-1" } },
+        { system: [] }
+      )
+      const result = await (hooks["tool"] as any).loaded_skills.execute({}, { sessionID: "test-session" })
+      await (hooks.event as Function)({
+        event: { type: "server.instance.disposed", properties: { directory: testDir } },
+      })
+
+      expect(result).toContain("counted with the words tokenizer")
+      expect(result).toMatch(/\*\*my-skill\*\* \(project, full, \d+ tokens\)/)
+      expect(ctx.client.app.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.objectContaining({
+            level: "error",
+            message: expect.stringContaining("must export a count(text) function"),
+          }),
+        })
+      )
+    })
+
     it("shows toast when executed with showToasts enabled", async () => {
       createSkill("my-skill", "---\nname: my-skill\ndescription: My Desc\n---\nContent")
       createConfig({ skills: ["my-skill"], showToasts: true, injectionMethod: "chatMessage" })
@@ -849,6 +1125,423 @@ describe("PreloadSkillsPlugin", () => {
     })
   })
 
+  describe("skillPaths", () => {
+    it("loads initial and triggered skills from configured directories", async () => {
+      const sharedDir = join(testDir, "tools", "ai", "skills")
+      for (const [name, extra] of [["shared", ""], ["shared-ts", "fileTypes: [ts]\n"]]) {
+        mkdirSync(join(sharedDir, name!), { recursive: true })
+        writeFileSync(join(sharedDir, name!, "SKILL.md"), `---\nname: ${name}\n${extra}---\n${name} Content`)
+      }
+      createConfig({ skills: ["shared"], skillPaths: ["tools/ai/skills"], injectionMethod: "chatMessage" })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      await (hooks["tool.execute.before"] as Function)(
+        { tool: "read", sessionID: "test-session", callID: "call-1" },
+        { args: { filePath: "src/index.ts" } }
+      )
+      await (hooks["tool.execute.after"] as Function)(
+        { tool: "read", sessionID: "test-session", callID: "call-1" },
+        { title: "", output: "", metadata: {} }
+      )
+
+      const output = createMsgOutput("Message")
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session" }, output)
+
+      expect(output.parts[0]!.text).toContain("shared Content")
+      expect(output.parts[0]!.text).toContain("shared-ts Content")
+    })
+  })
+
+  describe("namespaced skills", () => {
+    it("loads a skill from the named layer and shows it in loaded_skills", async () => {
+      const userSkillsDir = join(homeDir, ".claude", "skills")
+      mkdirSync(join(userSkillsDir, "react"), { recursive: true })
+      writeFileSync(join(userSkillsDir, "react", "SKILL.md"), "---\nname: react\ndescription: User React\n---\nUser Content")
+      createSkill("react", "---\nname: react\ndescription: Project React\n---\nProject Content")
+      createConfig({ skills: ["user:react"], injectionMethod: "chatMessage" })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      const output = createMsgOutput("Message")
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session" }, output)
+      const result = await (hooks["tool"] as any).loaded_skills.execute({}, { sessionID: "test-session" })
+
+      expect(output.parts[0]!.text).toContain("User Content")
+      expect(output.parts[0]!.text).not.toContain("Project Content")
+      expect(result).toContain("**react** (user,")
+      expect(ctx.client.app.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.objectContaining({
+            level: "info",
+            message: `Skill "react" at ${join(skillsDir, "react", "SKILL.md")} shadows ${join(userSkillsDir, "react", "SKILL.md")}`,
+          }),
+        })
+      )
+    })
+  })
+
+  describe("package skills", () => {
+    it("loads skills shipped by the project's dependencies at startup", async () => {
+      const packageDir = join(testDir, "node_modules", "acme-query")
+      mkdirSync(join(packageDir, "skills", "acme-query"), { recursive: true })
+      writeFileSync(join(packageDir, "package.json"), JSON.stringify({ name: "acme-query" }))
+      writeFileSync(join(packageDir, "skills", "acme-query", "SKILL.md"), "---\nname: acme-query\n---\nQuery Content")
+      writeFileSync(join(testDir, "package.json"), JSON.stringify({ dependencies: { "acme-query": "^2.0.0" } }))
+      createConfig({ packageSkills: true, injectionMethod: "chatMessage" })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      const output = createMsgOutput("Message")
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session" }, output)
+      const result = await (hooks["tool"] as any).loaded_skills.execute({}, { sessionID: "test-session" })
+
+      expect(output.parts[0]!.text).toContain("Query Content")
+      expect(result).toContain("**acme-query** (package acme-query,")
+    })
+
+    it("leaves package skills out unless packageSkills is true", async () => {
+      const packageDir = join(testDir, "node_modules", "acme-query")
+      mkdirSync(join(packageDir, "skills", "acme-query"), { recursive: true })
+      writeFileSync(join(packageDir, "package.json"), JSON.stringify({ name: "acme-query" }))
+      writeFileSync(join(packageDir, "skills", "acme-query", "SKILL.md"), "---\nname: acme-query\n---\nQuery Content")
+      writeFileSync(join(testDir, "package.json"), JSON.stringify({ dependencies: { "acme-query": "^2.0.0" } }))
+      createConfig({ injectionMethod: "chatMessage" })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      const output = createMsgOutput("Message")
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session" }, output)
+
+      expect(output.parts[0]!.text).not.toContain("Query Content")
+    })
+  })
+
+  describe("conditional sections", () => {
+    it("injects the sections for the session's agent and counts the trimmed skill", async () => {
+      const planning = "Planning notes ".repeat(40)
+      createSkill(
+        "workflow",
+        `---\nname: workflow\ndescription: Workflow\n---\nShared\n<!-- if agent=plan -->\n${planning}\n<!-- endif -->\n<!-- if agent=build -->\nBuild steps\n<!-- endif -->`
+      )
+      createConfig({ skills: ["workflow"], injectionMethod: "chatMessage" })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      const output = createMsgOutput("Message")
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session", agent: "build" }, output)
+      const result = await (hooks["tool"] as any).loaded_skills.execute({}, { sessionID: "test-session" })
+
+      expect(output.parts[0]!.text).toContain("Build steps")
+      expect(output.parts[0]!.text).not.toContain("Planning notes")
+      const tokens = Number(/\*\*workflow\*\* \(project, full, (\d+) tokens\)/.exec(result)?.[1])
+      expect(tokens).toBeGreaterThan(0)
+      expect(tokens).toBeLessThan(planning.length / 4)
+    })
+  })
+
+  describe("heading sections", () => {
+    const apiSkill = [
+      "---",
+      "name: api-design",
+      "description: API",
+      "---",
+      "# API Design",
+      "## Error responses",
+      "Use problem details",
+      "## Pagination",
+      "Use cursors",
+      "## Versioning",
+      "Use headers",
+    ].join("\n")
+
+    const touch = async (hooks: Hooks, filePath: string, callID: string) => {
+      await (hooks["tool.execute.before"] as Function)(
+        { tool: "read", sessionID: "test-session", callID },
+        { args: { filePath } }
+      )
+      await (hooks["tool.execute.after"] as Function)(
+        { tool: "read", sessionID: "test-session", callID },
+        { title: "", output: "", metadata: {} }
+      )
+    }
+
+    it("loads the targeted sections and merges in later ones without repeating text", async () => {
+      createSkill("api-design", apiSkill)
+      createConfig({
+        pathPatterns: { "src/api/errors/**": ["api-design#error-responses"] },
+        contentTriggers: { paginate: ["api-design#Pagination", "api-design#error-responses"] },
+        injectionMethod: "chatMessage",
+      })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      await touch(hooks, "src/api/errors/handler.ts", "call-1")
+      const first = createMsgOutput("Fix the handler")
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session" }, first)
+      const second = createMsgOutput("Now paginate the list")
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session" }, second)
+      const result = await (hooks["tool"] as any).loaded_skills.execute({}, { sessionID: "test-session" })
+
+      expect(first.parts[0]!.text).toContain("# API Design")
+      expect(first.parts[0]!.text).toContain("Use problem details")
+      expect(first.parts[0]!.text).not.toContain("Use cursors")
+      expect(second.parts[0]!.text).toContain("Use cursors")
+      expect(second.parts[0]!.text).not.toContain("Use problem details")
+      expect(second.parts[0]!.text).not.toContain("# API Design")
+      expect(result).toContain("sections #error-responses #pagination")
+      expect(result).not.toContain("Use headers")
+    })
+
+    it("completes a partly loaded skill when the whole skill is triggered, and warns about unknown sections", async () => {
+      createSkill("api-design", apiSkill)
+      createConfig({
+        fileTypeSkills: { ".ts": ["api-design#pagination", "api-design#retries"] },
+        contentTriggers: { api: ["api-design"] },
+      })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      await touch(hooks, "src/list.ts", "call-1")
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session" }, createMsgOutput("Review the api"))
+      const output = { system: [] as string[] }
+      await (hooks["experimental.chat.system.transform"] as Function)(
+        { sessionID: "test-session", model: { providerID: "anthropic", id: "claude" } },
+        output
+      )
+
+      const system = output.system.join("\n")
+      expect(system.match(/Use cursors/g)).toHaveLength(1)
+      expect(system).toContain("Use problem details")
+      expect(system).toContain("Use headers")
+      expect(ctx.client.app.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.objectContaining({
+            level: "warn",
+            message: expect.stringContaining('No section "#retries" in skill "api-design"'),
+          }),
+        })
+      )
+    })
+  })
+
+  describe("frontmatter triggers", () => {
+    it("loads a skill for the file types and paths it declares, without config", async () => {
+      createSkill("ts-skill", "---\nname: ts-skill\ndescription: TS\nfileTypes: [ts, .tsx]\n---\nTypeScript Content")
+      createSkill("api-skill", "---\nname: api-skill\ndescription: API\npaths:\n  - src/api/**\n---\nAPI Content")
+      createConfig({ injectionMethod: "chatMessage" })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      await (hooks["tool.execute.before"] as Function)(
+        { tool: "read", sessionID: "test-session", callID: "call-1" },
+        { args: { filePath: "src/api/users.ts" } }
+      )
+      await (hooks["tool.execute.after"] as Function)(
+        { tool: "read", sessionID: "test-session", callID: "call-1" },
+        { title: "", output: "", metadata: {} }
+      )
+
+      const output = createMsgOutput("Next message")
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session" }, output)
+
+      expect(output.parts[0]!.text).toContain("TypeScript Content")
+      expect(output.parts[0]!.text).toContain("API Content")
+    })
+
+    it("loads a skill for its keywords and agents, alongside configured triggers", async () => {
+      createSkill("db", "---\nname: db\ndescription: DB\nkeywords: database, sql\n---\nDB Content")
+      createSkill("planning", "---\nname: planning\ndescription: Plan\nagents: [plan]\n---\nPlanning Content")
+      createSkill("queries", "---\nname: queries\ndescription: Queries\n---\nQueries Content")
+      createConfig({ contentTriggers: { sql: ["queries"] }, injectionMethod: "chatMessage" })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      const output = createMsgOutput("Write some SQL")
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session", agent: "plan" }, output)
+
+      expect(output.parts[0]!.text).toContain("DB Content")
+      expect(output.parts[0]!.text).toContain("Queries Content")
+      expect(output.parts[0]!.text).toContain("Planning Content")
+    })
+  })
+
+  describe("skill dependencies", () => {
+    it("injects a triggered skill's dependencies once, before it", async () => {
+      createSkill("nestjs-core", "---\nname: nestjs-core\ndescription: Core\n---\nCore Content")
+      createSkill(
+        "nestjs-testing",
+        "---\nname: nestjs-testing\ndescription: Testing\nrequires: [nestjs-core]\n---\nTesting Content"
+      )
+      createConfig({ skills: ["nestjs-core"], contentTriggers: { test: ["nestjs-testing"] }, injectionMethod: "chatMessage" })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      const first = createMsgOutput("Hello")
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session" }, first)
+      const second = createMsgOutput("Write a test")
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session" }, second)
+
+      expect(first.parts[0]!.text).toContain("Core Content")
+      expect(second.parts[0]!.text).toContain("Testing Content")
+      expect(second.parts[0]!.text).not.toContain("Core Content")
+    })
+  })
+
+  describe("skill conflicts", () => {
+    const triggerJest = async (hooks: Hooks) => {
+      await (hooks["tool.execute.before"] as Function)(
+        { tool: "read", sessionID: "test-session", callID: "call-1" },
+        { args: { filePath: "src/app.test.ts" } }
+      )
+      await (hooks["tool.execute.after"] as Function)(
+        { tool: "read", sessionID: "test-session", callID: "call-1" },
+        { title: "", output: "", metadata: {} }
+      )
+    }
+
+    const systemPrompt = async (hooks: Hooks) => {
+      const output = { system: [] as string[] }
+      await (hooks["experimental.chat.system.transform"] as Function)(
+        { sessionID: "test-session", model: { id: "test", providerID: "test" } },
+        output
+      )
+      return output.system.join("\n")
+    }
+
+    beforeEach(() => {
+      createSkill("jest", "---\nname: jest\ndescription: Jest\nconflicts: [vitest]\n---\nJest Content")
+      createSkill("vitest", "---\nname: vitest\ndescription: Vitest\npriority: 5\n---\nVitest Content")
+    })
+
+    it("keeps the first skill and logs the rejected one by default", async () => {
+      createConfig({ skills: ["vitest"], fileTypeSkills: { ".ts": ["jest"] } })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+      await triggerJest(hooks)
+      const system = await systemPrompt(hooks)
+
+      expect(system).toContain("Vitest Content")
+      expect(system).not.toContain("Jest Content")
+      expect(ctx.client.app.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.objectContaining({
+            message: 'Rejected skill "jest": conflicts with already loaded "vitest"',
+          }),
+        })
+      )
+    })
+
+    it("replaces the loaded skill when conflictResolution is replace", async () => {
+      createConfig({ skills: ["vitest"], fileTypeSkills: { ".ts": ["jest"] }, conflictResolution: "replace" })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+      await triggerJest(hooks)
+      const system = await systemPrompt(hooks)
+
+      expect(system).toContain("Jest Content")
+      expect(system).not.toContain("Vitest Content")
+    })
+
+    it("prefers the higher priority skill, with skillSettings overriding frontmatter", async () => {
+      createConfig({
+        skills: ["vitest"],
+        fileTypeSkills: { ".ts": ["jest"] },
+        conflictResolution: "priority",
+        skillSettings: { jest: { priority: 10 } },
+      })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+      await triggerJest(hooks)
+      const system = await systemPrompt(hooks)
+
+      expect(system).toContain("Jest Content")
+      expect(system).not.toContain("Vitest Content")
+    })
+
+    it("applies the config conflict table to initial skills", async () => {
+      createSkill("redux", "---\nname: redux\ndescription: Redux\n---\nRedux Content")
+      createSkill("zustand", "---\nname: zustand\ndescription: Zustand\n---\nZustand Content")
+      createConfig({ skills: ["redux", "zustand"], conflicts: [["redux", "zustand"]] })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+      const system = await systemPrompt(hooks)
+
+      expect(system).toContain("Redux Content")
+      expect(system).not.toContain("Zustand Content")
+    })
+  })
+
+  describe("preload_skills_config tool", () => {
+    it("shows the effective config and the layer each value came from", async () => {
+      writeFileSync(join(testDir, "preload-skills.json"), JSON.stringify({ maxTokens: 1000 }))
+      createConfig({ maxTokens: 2000, skills: ["a"] })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      const toolDef = (hooks["tool"] as any).preload_skills_config
+      const result = await toolDef.execute({}, {})
+
+      expect(result).toContain(join(testDir, "preload-skills.json"))
+      expect(result).toContain(join(opencodeDir, "preload-skills.json"))
+      expect(result).toContain('"maxTokens": 2000')
+      expect(result).toContain("`maxTokens` ← opencode")
+    })
+  })
+
+  describe("preload_skills_migrate tool", () => {
+    it("upgrades outdated config files and reports what changed", async () => {
+      createConfig({ useMinification: true, hotReload: false })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      const result = await (hooks["tool"] as any).preload_skills_migrate.execute({}, {})
+
+      expect(result).toContain(`**Updated** ${join(opencodeDir, "preload-skills.json")} (version 1 → 2)`)
+      expect(result).toContain("`useMinification`")
+      expect(JSON.parse(readFileSync(join(opencodeDir, "preload-skills.json"), "utf-8"))).toEqual({
+        version: 2,
+        useMinification: "standard",
+        hotReload: false,
+      })
+    })
+  })
+
+  describe("bundled resources", () => {
+    it("lists resources with the skill's directory for the read tool", async () => {
+      createSkill("api", "---\nname: api\ndescription: API\nresources: [references/full.md]\n---\nAPI Content")
+      mkdirSync(join(skillsDir, "api", "references"))
+      writeFileSync(join(skillsDir, "api", "references", "full.md"), "Full reference")
+      createConfig({ skills: ["api"], injectionMethod: "chatMessage" })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+      const output = createMsgOutput("Message")
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session" }, output)
+
+      expect(output.parts[0]!.text).toContain(`Bundled resources in \`${join(skillsDir, "api")}\``)
+      expect(output.parts[0]!.text).toContain("- `references/full.md`")
+      expect(output.parts[0]!.text).not.toContain("Full reference")
+      expect(Object.keys(hooks["tool"]!)).not.toContain("read_skill_resource")
+    })
+  })
+
   describe("analytics", () => {
     it("tracks skill usage when enabled", async () => {
       createSkill("test", "---\nname: test\ndescription: Test\n---\nContent")
@@ -894,6 +1587,53 @@ describe("PreloadSkillsPlugin", () => {
       expect(hooks).toBeDefined()
     })
 
+    it("reports validation problems through the logger and a toast", async () => {
+      createConfig({ skills: ["a"], useMinification: "agressive" })
+
+      const ctx = createMockContext()
+      await PreloadSkillsPlugin(ctx)
+
+      expect(ctx.client.app.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.objectContaining({
+            level: "error",
+            message: expect.stringContaining('useMinification: Expected one of false, "standard", "aggressive"'),
+          }),
+        })
+      )
+      expect((ctx.client as any).tui.showToast).toHaveBeenCalledWith({
+        body: expect.objectContaining({
+          message: expect.stringContaining("1 error"),
+          variant: "error",
+        }),
+      })
+    })
+
+    it("logs malformed skill frontmatter with the file and line", async () => {
+      createSkill("broken", "---\nname: broken\ndescription: [unclosed\n---\nContent")
+      createConfig({ skills: ["broken"] })
+
+      const ctx = createMockContext()
+      await PreloadSkillsPlugin(ctx)
+
+      expect(ctx.client.app.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.objectContaining({
+            level: "error",
+            message: expect.stringContaining(`${join(skillsDir, "broken", "SKILL.md")}:3: Invalid frontmatter`),
+          }),
+        })
+      )
+    })
+
+    it("fails hard on config problems in strict mode", async () => {
+      createConfig({ strict: true, skils: ["a"] })
+
+      const ctx = createMockContext()
+
+      await expect(PreloadSkillsPlugin(ctx)).rejects.toThrow(/Unknown option "skils"/)
+    })
+
     it("parses all config options", async () => {
       createSkill("test", "---\nname: test\ndescription: Test\n---\nContent")
       createConfig({
@@ -919,6 +1659,253 @@ describe("PreloadSkillsPlugin", () => {
     })
   })
 
+  describe("profiles", () => {
+    const systemPromptFor = async (hooks: Hooks, sessionID: string) => {
+      const output = { system: [] as string[] }
+      await (hooks["experimental.chat.system.transform"] as Function)(
+        { sessionID, model: { id: "test", providerID: "test" } },
+        output
+      )
+      return output.system.join("\n")
+    }
+
+    beforeEach(() => {
+      createSkill("base-skill", "---\nname: base-skill\ndescription: Base\n---\nBase Content")
+      createSkill("review-skill", "---\nname: review-skill\ndescription: Review\n---\nReview Content")
+      createConfig({
+        skills: ["base-skill"],
+        profiles: { review: { skills: ["review-skill"] } },
+      })
+    })
+
+    afterEach(() => {
+      delete process.env.PRELOAD_SKILLS_PROFILE
+    })
+
+    it("uses the profile named after the session's agent", async () => {
+      const hooks = await PreloadSkillsPlugin(createMockContext())
+
+      await (hooks["chat.message"] as Function)(
+        { sessionID: "review-session", agent: "review" },
+        createMsgOutput("Review this")
+      )
+      await (hooks["chat.message"] as Function)(
+        { sessionID: "build-session", agent: "build" },
+        createMsgOutput("Build this")
+      )
+
+      const review = await systemPromptFor(hooks, "review-session")
+      expect(review).toContain("Review Content")
+      expect(review).not.toContain("Base Content")
+
+      const build = await systemPromptFor(hooks, "build-session")
+      expect(build).toContain("Base Content")
+      expect(build).not.toContain("Review Content")
+    })
+
+    it("keeps a session on the profile it started with", async () => {
+      const hooks = await PreloadSkillsPlugin(createMockContext())
+
+      await (hooks["chat.message"] as Function)(
+        { sessionID: "session", agent: "review" },
+        createMsgOutput("Review this")
+      )
+      await (hooks["chat.message"] as Function)(
+        { sessionID: "session", agent: "build" },
+        createMsgOutput("Now build it")
+      )
+
+      expect(await systemPromptFor(hooks, "session")).toContain("Review Content")
+    })
+
+    it("injects through the chat message when an agent profile sets chatMessage", async () => {
+      createConfig({
+        skills: ["base-skill"],
+        profiles: { review: { injectionMethod: "chatMessage", skills: ["review-skill"] } },
+      })
+      const hooks = await PreloadSkillsPlugin(createMockContext())
+
+      const output = createMsgOutput("Review this")
+      await (hooks["chat.message"] as Function)({ sessionID: "review-session", agent: "review" }, output)
+
+      expect(output.parts[0]!.text).toContain("Review Content")
+      expect(await systemPromptFor(hooks, "review-session")).toBe("")
+    })
+
+    it("resolves conflicts with the agent profile's settings", async () => {
+      createConfig({
+        skills: ["base-skill"],
+        contentTriggers: { review: ["review-skill"] },
+        profiles: { review: { conflicts: [["base-skill", "review-skill"]] } },
+      })
+      const hooks = await PreloadSkillsPlugin(createMockContext())
+      const loadedSkills = (sessionID: string) =>
+        (hooks["tool"] as any).loaded_skills.execute({}, { sessionID }) as Promise<string>
+
+      await (hooks["chat.message"] as Function)(
+        { sessionID: "review-session", agent: "review" },
+        createMsgOutput("Review this")
+      )
+      await (hooks["chat.message"] as Function)(
+        { sessionID: "build-session", agent: "build" },
+        createMsgOutput("Review this")
+      )
+
+      expect(await loadedSkills("review-session")).not.toContain("review-skill")
+      expect(await loadedSkills("build-session")).toContain("review-skill")
+    })
+
+    it("warns about plugin-wide options in profiles picked by agent name", async () => {
+      createConfig({ profiles: { review: { debug: true, skills: ["review-skill"] } } })
+      const ctx = createMockContext()
+      await PreloadSkillsPlugin(ctx)
+
+      expect(ctx.client.app.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.objectContaining({
+            level: "warn",
+            message: expect.stringContaining("profiles.review.debug"),
+          }),
+        })
+      )
+    })
+
+    it("applies the profile selected by PRELOAD_SKILLS_PROFILE to every session", async () => {
+      process.env.PRELOAD_SKILLS_PROFILE = "review"
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      const prompt = await systemPromptFor(hooks, "session")
+      expect(prompt).toContain("Review Content")
+      expect(prompt).not.toContain("Base Content")
+
+      const result = await (hooks["tool"] as any).preload_skills_config.execute({}, {})
+      expect(result).toContain("**Profile:** `review`")
+      expect(result).toContain("`skills` ← profile review")
+    })
+  })
+
+  describe("hot reload", () => {
+    const dispose = async (hooks: Hooks) => {
+      await (hooks.event as Function)({
+        event: { type: "server.instance.disposed", properties: { directory: testDir } },
+      })
+    }
+
+    const systemPrompt = async (hooks: Hooks) => {
+      const systemOutput = { system: [] as string[] }
+      await (hooks["experimental.chat.system.transform"] as Function)(
+        { sessionID: "test-session", model: { id: "test", providerID: "test" } },
+        systemOutput
+      )
+      return systemOutput.system.join("\n")
+    }
+
+    it("picks up edited skill content in live sessions", async () => {
+      createSkill("live-skill", "---\nname: live-skill\ndescription: Live\n---\nOriginal Content")
+      createConfig({ skills: ["live-skill"] })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      expect(await systemPrompt(hooks)).toContain("Original Content")
+
+      createSkill("live-skill", "---\nname: live-skill\ndescription: Live\n---\nUpdated Content")
+
+      await vi.waitFor(async () => {
+        expect(await systemPrompt(hooks)).toContain("Updated Content")
+      }, { timeout: 3000 })
+      expect(await systemPrompt(hooks)).not.toContain("Original Content")
+
+      await dispose(hooks)
+    })
+
+    it("rebuilds trigger tables when the config changes", async () => {
+      createSkill("ts-skill", "---\nname: ts-skill\ndescription: TS\n---\nTypeScript Content")
+      createConfig({ skills: [] })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      createConfig({ fileTypeSkills: { ".ts": ["ts-skill"] } })
+
+      await vi.waitFor(() => {
+        expect(ctx.client.app.log).toHaveBeenCalledWith(
+          expect.objectContaining({
+            body: expect.objectContaining({ message: "Reloaded preload-skills config and skills" }),
+          })
+        )
+      }, { timeout: 3000 })
+
+      await (hooks["tool.execute.before"] as Function)(
+        { tool: "read", sessionID: "test-session", callID: "call-1" },
+        { args: { filePath: "index.ts" } }
+      )
+      await (hooks["tool.execute.after"] as Function)(
+        { tool: "read", sessionID: "test-session", callID: "call-1" },
+        { title: "", output: "", metadata: {} }
+      )
+
+      expect(await systemPrompt(hooks)).toContain("TypeScript Content")
+
+      await dispose(hooks)
+    })
+
+    it("warns that changing enableTools needs a restart", async () => {
+      createConfig({ skills: [] })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      createConfig({ skills: [], enableTools: false })
+
+      await vi.waitFor(() => {
+        expect(ctx.client.app.log).toHaveBeenCalledWith(
+          expect.objectContaining({
+            body: expect.objectContaining({
+              level: "warn",
+              message: "Changing enableTools takes effect after OpenCode restarts",
+            }),
+          })
+        )
+      }, { timeout: 3000 })
+      expect(hooks["tool"]).toBeDefined()
+
+      await dispose(hooks)
+    })
+
+    it("switches the injection method without a restart", async () => {
+      createSkill("switch-skill", "---\nname: switch-skill\ndescription: S\n---\nSwitch Content")
+      createConfig({ skills: ["switch-skill"], injectionMethod: "chatMessage" })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      expect(await systemPrompt(hooks)).toBe("")
+
+      createConfig({ skills: ["switch-skill"], injectionMethod: "systemPrompt" })
+
+      await vi.waitFor(async () => {
+        expect(await systemPrompt(hooks)).toContain("Switch Content")
+      }, { timeout: 3000 })
+
+      await dispose(hooks)
+    })
+
+    it("does not watch files when hotReload is false", async () => {
+      createSkill("static-skill", "---\nname: static-skill\ndescription: S\n---\nOriginal Content")
+      createConfig({ skills: ["static-skill"], hotReload: false })
+
+      const ctx = createMockContext()
+      const hooks = await PreloadSkillsPlugin(ctx)
+
+      createSkill("static-skill", "---\nname: static-skill\ndescription: S\n---\nUpdated Content")
+      await new Promise((resolve) => setTimeout(resolve, 300))
+
+      expect(await systemPrompt(hooks)).toContain("Original Content")
+    })
+  })
+
   describe("multiple file extension support", () => {
     it("supports comma-separated extensions", async () => {
       createSkill("jsx-skill", "---\nname: jsx-skill\ndescription: JSX\n---\nJSX Content")
@@ -962,8 +1949,16 @@ describe("PreloadSkillsPlugin", () => {
       const ctx = createMockContext()
       const hooks = await PreloadSkillsPlugin(ctx)
 
-      expect(hooks["experimental.chat.system.transform"]).toBeUndefined()
-      expect(hooks["chat.message"]).toBeDefined()
+      const systemOutput = { system: [] as string[] }
+      await (hooks["experimental.chat.system.transform"] as Function)(
+        { sessionID: "test-session", model: { id: "test", providerID: "test" } },
+        systemOutput
+      )
+      const msgOutput = createMsgOutput("Hello")
+      await (hooks["chat.message"] as Function)({ sessionID: "test-session" }, msgOutput)
+
+      expect(systemOutput.system).toEqual([])
+      expect(msgOutput.parts[0]!.text).toContain("Test Content")
     })
 
     it("injects skills into system prompt array", async () => {
@@ -1,11 +1,40 @@
 import type { Plugin, PluginInput } from "@opencode-ai/plugin"
-import type { PreloadSkillsConfig, ParsedSkill, PluginContext, Logger, ToastFn } from "./types.js"
-import { loadConfig } from "./config/loader.js"
-import { loadSkills, formatSkillsForInjection, calculateTotalTokens } from "./skills/loader.js"
+import type {
+  PreloadSkillsConfig,
+  ParsedSkill,
+  PluginContext,
+  Logger,
+  DiagnosticReporter,
+  ToastFn,
+  ConfigDiagnostic,
+  SessionProfile,
+  InitialSkills,
+  SkillTier,
+} from "./types.js"
+import { resolveConfig, getConfigCandidatePaths } from "./config/loader.js"
+import { applyProfile } from "./config/profiles.js"
+import { NestedConfigResolverImpl } from "./config/nested.js"
+import { ConfigValidationError, formatDiagnostic } from "./config/validate.js"
+import {
+  loadSkills,
+  loadSkillFile,
+  discoverSkills,
+  findShadowedSkills,
+  findPackageSkills,
+  formatSkillsForInjection,
+  calculateTotalTokens,
+  filterSkillsByTokenBudget,
+} from "./skills/loader.js"
 import { SkillResolverImpl, resolveSkillGroups } from "./skills/resolver.js"
+import { skillStore } from "./skills/store.js"
+import { collectSkillTriggers, mergeSkillTriggers } from "./skills/triggers.js"
+import { resolveConflicts } from "./skills/conflicts.js"
+import { skillReferenceName } from "./skills/references.js"
 import { SessionManagerImpl } from "./session/manager.js"
 import { createHooks } from "./hooks"
 import { checkCondition } from "./utils.js"
+import { FileWatcher } from "./watcher.js"
+import { loadTokenizerModules } from "./tokenizers.js"
 
 export type { PreloadSkillsConfig, ParsedSkill }
 export { loadSkills, formatSkillsForInjection }
@@ -23,38 +52,75 @@ function resolveConditionalSkills(config: PreloadSkillsConfig, projectDir: strin
   return resolved
 }
 
-export const PreloadSkillsPlugin: Plugin = async (ctx: PluginInput) => {
-  const config = loadConfig(ctx.directory)
-
-  const log: Logger = (level, message, extra) => {
-    if (level === "debug" && !config.debug) return
+function reportConfigDiagnostics(
+  diagnostics: ConfigDiagnostic[],
+  log: Logger,
+  showToast: (message: string, variant: "warning" | "error") => void
+): void {
+  if (diagnostics.length === 0) return
 
-    ctx.client.app.log({
-      body: {
-        service: "preload-skills",
-        level,
-        message,
-        extra,
-      },
+  for (const diagnostic of diagnostics) {
+    log(diagnostic.severity === "error" ? "error" : "warn", formatDiagnostic(diagnostic), {
+      file: diagnostic.file,
+      path: diagnostic.path || undefined,
     })
   }
 
+  const errors = diagnostics.filter((d) => d.severity === "error").length
+  const warnings = diagnostics.length - errors
+  const counts = [
+    errors > 0 ? `${errors} error${errors === 1 ? "" : "s"}` : "",
+    warnings > 0 ? `${warnings} warning${warnings === 1 ? "" : "s"}` : "",
+  ].filter(Boolean)
+
+  showToast(
+    `preload-skills config has ${counts.join(" and ")} — check the logs`,
+    errors > 0 ? "error" : "warning"
+  )
+}
+
+type InitialSkillState = InitialSkills & Pick<SessionProfile, "initialFormattedContent">
+
+function loadInitialSkills(
+  config: PreloadSkillsConfig,
+  projectDir: string,
+  log: Logger,
+  onDiagnostic?: DiagnosticReporter
+): InitialSkillState {
   const allInitialSkillNames = [
     ...config.skills,
-    ...resolveConditionalSkills(config, ctx.directory),
+    ...resolveConditionalSkills(config, projectDir),
+    ...findPackageSkills(projectDir, config),
   ]
 
   const resolvedInitialNames = resolveSkillGroups(allInitialSkillNames, config.groups ?? {})
-  let initialSkills = loadSkills(resolvedInitialNames, ctx.directory)
-  let initialTokensUsed = calculateTotalTokens(initialSkills)
+  const resolved = resolveConflicts(loadSkills(resolvedInitialNames, projectDir, onDiagnostic, config), {
+    conflictTable: config.conflicts,
+    resolution: config.conflictResolution,
+    skillSettings: config.skillSettings,
+  })
+  for (const { skill, reason } of resolved.rejected) {
+    log("info", `Rejected initial skill "${skill.name}": ${reason}`)
+  }
 
-  if (config.maxTokens && initialTokensUsed > config.maxTokens) {
-    const { filterSkillsByTokenBudget } = await import("./skills/loader.js")
-    initialSkills = filterSkillsByTokenBudget(initialSkills, config.maxTokens)
-    initialTokensUsed = calculateTotalTokens(initialSkills)
+  // `injected` holds the skills as injected, some stepped down a tier;
+  // `initialSkills` keeps them whole, with their tiers in `initialTiers`.
+  let injected = resolved.skills
+  if (config.maxTokens && calculateTotalTokens(injected) > config.maxTokens) {
+    injected = filterSkillsByTokenBudget(injected, config.maxTokens, {
+      strategy: config.budgetStrategy,
+      skillSettings: config.skillSettings,
+      onExcluded: (skill, reason) => log("info", `Left out initial skill "${skill.name}" for the token budget: ${reason}`),
+    })
   }
+  const whole = new Map(resolved.skills.map((skill) => [skill.name, skill]))
+  const initialSkills = injected.map((skill) => whole.get(skill.name)!)
+  const initialTiers: Record<string, SkillTier> = Object.fromEntries(
+    injected.flatMap((skill) => (skill.tier ? [[skill.name, skill.tier]] : []))
+  )
+  const initialTokensUsed = calculateTotalTokens(injected)
 
-  const initialFormattedContent = formatSkillsForInjection(initialSkills, {
+  const initialFormattedContent = formatSkillsForInjection(injected, {
     useSummaries: config.useSummaries,
     useMinification: config.useMinification,
     skillSettings: config.skillSettings,
@@ -63,12 +129,14 @@ export const PreloadSkillsPlugin: Plugin = async (ctx: PluginInput) => {
   if (initialSkills.length > 0) {
     const loadedNames = initialSkills.map((s) => s.name)
     const missingNames = allInitialSkillNames.filter(
-      (s) => !loadedNames.includes(s) && !s.startsWith("@")
+      (s) => !loadedNames.includes(skillReferenceName(s)) && !s.startsWith("@")
     )
 
+    const tiers = Object.entries(initialTiers).map(([name, tier]) => `${name}: ${tier}`)
     log("info", `Loaded ${initialSkills.length} initial skills`, {
       loaded: loadedNames,
       tokens: initialTokensUsed,
+      tiers: tiers.length > 0 ? tiers : undefined,
       missing: missingNames.length > 0 ? missingNames : undefined,
     })
   }
@@ -83,40 +151,252 @@ export const PreloadSkillsPlugin: Plugin = async (ctx: PluginInput) => {
     log("warn", "No skills configured. Create .opencode/preload-skills.json")
   }
 
+  return { initialSkills, initialTiers, initialFormattedContent, initialTokensUsed }
+}
+
+export const PreloadSkillsPlugin: Plugin = async (ctx: PluginInput) => {
+  const resolvedConfig = await resolveConfig(ctx.directory)
+  let currentConfig = resolvedConfig.config
+
+  const log: Logger = (level, message, extra) => {
+    if (level === "debug" && !currentConfig.debug) return
+
+    ctx.client.app.log({
+      body: {
+        service: "preload-skills",
+        level,
+        message,
+        extra,
+      },
+    })
+  }
+
+  const toast: ToastFn = (message, variant = "info") => {
+    if (!currentConfig.showToasts) return
+    ctx.client.tui.showToast({
+      body: { message, variant, duration: 3000 },
+    })
+  }
+
+  // Config problems are surfaced even when showToasts is off, since a typo
+  // there may be exactly what turned toasts (or the whole plugin) off.
+  const showDiagnosticsToast = (message: string, variant: "warning" | "error") => {
+    ctx.client.tui.showToast({
+      body: { message, variant, duration: 5000 },
+    })
+  }
+
+  const startupDiagnostics = [
+    ...resolvedConfig.diagnostics,
+    ...(await loadTokenizerModules(currentConfig.tokenizers ?? {}, ctx.directory)),
+  ]
+  reportConfigDiagnostics(startupDiagnostics, log, showDiagnosticsToast)
+
+  // Skills are loaded each time a trigger fires and the store replays their
+  // problems, so a problem in a skill file is logged once, and again after
+  // the next reload if still there.
+  const reportedSkillDiagnostics = new Set<string>()
+  const reportSkillDiagnostic: DiagnosticReporter = (diagnostic) => {
+    const message = formatDiagnostic(diagnostic)
+    if (reportedSkillDiagnostics.has(message)) return
+    reportedSkillDiagnostics.add(message)
+    log(diagnostic.severity === "error" ? "error" : "warn", message, { file: diagnostic.file })
+  }
+
+  if (currentConfig.strict && startupDiagnostics.length > 0) {
+    throw new ConfigValidationError(startupDiagnostics)
+  }
+
+  if (resolvedConfig.profile) {
+    log("info", `Using preload-skills profile "${resolvedConfig.profile}"`)
+  }
+
+  if (resolvedConfig.layers.length > 0) {
+    log("debug", "Resolved config layers", {
+      layers: resolvedConfig.layers.map(({ name, path }) => ({ name, path })),
+    })
+  }
+
+  // Skills can declare their own triggers, so every skill in the search
+  // paths is read up front and its triggers added to the config's maps.
+  // Names found in more than one search path are reported along the way.
+  const discoverSkillTriggers = (config: PreloadSkillsConfig) => {
+    const skills = discoverSkills(ctx.directory, reportSkillDiagnostic, config)
+    for (const { name, filePath, shadowed } of findShadowedSkills(ctx.directory, config)) {
+      log("info", `Skill "${name}" at ${filePath} shadows ${shadowed.join(", ")}`)
+    }
+    const declaring = [...skills].filter(([, skill]) => skill.triggers).map(([name]) => name)
+    if (declaring.length > 0) {
+      log("debug", "Found skills with frontmatter triggers", { skills: declaring })
+    }
+    return { skillPaths: [...skills.values()].map((s) => s.filePath), triggers: collectSkillTriggers(skills) }
+  }
+
+  // Lookups in the process-wide skill store, misses included, last until
+  // the next reload; start from a clean store so new skills are found.
+  skillStore.clear()
+  let discovered = discoverSkillTriggers(currentConfig)
+  currentConfig = mergeSkillTriggers(currentConfig, discovered.triggers)
+
+  const initialState = loadInitialSkills(currentConfig, ctx.directory, log, reportSkillDiagnostic)
+
+  // Reloads are chained so a burst of edits never runs two at once.
+  let reloading = Promise.resolve()
+  const watcher = currentConfig.hotReload
+    ? new FileWatcher(() => {
+        reloading = reloading.then(reload).catch((error) => {
+          log("error", "Failed to reload preload-skills", {
+            error: error instanceof Error ? error.message : String(error),
+          })
+        })
+      })
+    : undefined
+
   const sessionManager = new SessionManagerImpl(
-    config,
+    currentConfig,
     ctx.directory,
     log,
-    new Set(initialSkills.map((s) => s.name)),
-    initialTokensUsed
+    initialState,
+    (skill) => {
+      watcher?.add(skill.filePath)
+      skill.includedFiles?.forEach((file) => watcher?.add(file))
+    }
   )
 
-  for (const skill of initialSkills) {
+  for (const skill of initialState.initialSkills) {
     sessionManager.cacheSkill(skill)
   }
 
-  const skillResolver = new SkillResolverImpl(config, ctx.directory)
+  const nestedConfigs = new NestedConfigResolverImpl(ctx.directory, (nested, diagnostics) => {
+    reportConfigDiagnostics(diagnostics, log, showDiagnosticsToast)
+    watcher?.add(nested.path)
+    log("debug", "Loaded nested config", { path: nested.path })
+  })
 
-  const toast: ToastFn = (message, variant = "info") => {
-    if (!config.showToasts) return
-    ctx.client.tui.showToast({
-      body: { message, variant, duration: 3000 },
-    })
+  // Agent profiles are built the first time a session needs them and
+  // dropped on reload. They are off when PRELOAD_SKILLS_PROFILE picks one.
+  const agentProfiles = new Map<string, SessionProfile>()
+
+  const getAgentProfile = (name: string): SessionProfile => {
+    let profile = agentProfiles.get(name)
+    if (!profile) {
+      // Skill locations are shared by every session, so agent profiles keep the plugin's.
+      const { skillPaths, globalSkills, packageSkills, templateEnv } = pluginContext.config
+      const config = mergeSkillTriggers(
+        {
+          ...applyProfile(pluginContext.resolvedConfig.config, name),
+          skillPaths,
+          globalSkills,
+          packageSkills,
+          templateEnv,
+        },
+        pluginContext.skillTriggers
+      )
+      profile = {
+        profile: name,
+        config,
+        skillResolver: new SkillResolverImpl(config, ctx.directory, reportSkillDiagnostic, log),
+        ...loadInitialSkills(config, ctx.directory, log, reportSkillDiagnostic),
+      }
+      for (const skill of profile.initialSkills) {
+        sessionManager.cacheSkill(skill)
+      }
+      agentProfiles.set(name, profile)
+    }
+    return profile
+  }
+
+  const getSessionProfile = (sessionId: string, agent?: string): SessionProfile => {
+    const { config, resolvedConfig } = pluginContext
+    if (agent && !resolvedConfig.profile && config.profiles && Object.hasOwn(config.profiles, agent)) {
+      const profile = getAgentProfile(agent)
+      sessionManager.startSession(sessionId, agent, profile)
+    }
+
+    const bound = sessionManager.getState(sessionId).profile
+    return bound && config.profiles && Object.hasOwn(config.profiles, bound)
+      ? getAgentProfile(bound)
+      : pluginContext
   }
 
   const pluginContext: PluginContext = {
-    config,
+    config: currentConfig,
+    resolvedConfig,
     projectDir: ctx.directory,
     log,
     toast,
     sessionManager,
-    skillResolver,
-    initialSkills,
-    initialFormattedContent,
-    initialTokensUsed,
+    nestedConfigs,
+    skillTriggers: discovered.triggers,
+    skillResolver: new SkillResolverImpl(currentConfig, ctx.directory, reportSkillDiagnostic, log),
+    getSessionProfile,
+    ...initialState,
   }
 
-  return createHooks(pluginContext)
+  const watchedPaths = () => [
+    ...getConfigCandidatePaths(ctx.directory),
+    ...pluginContext.resolvedConfig.layers.map((layer) => layer.path),
+    ...sessionManager.getCachedSkills().flatMap((s) => [s.filePath, ...(s.includedFiles ?? [])]),
+    ...discovered.skillPaths,
+  ]
+
+  const reload = async () => {
+    const next = await resolveConfig(ctx.directory)
+    reportConfigDiagnostics(next.diagnostics, log, showDiagnosticsToast)
+
+    if (next.config.strict && next.diagnostics.length > 0) {
+      log("error", "Rejected config reload in strict mode, keeping the previous config")
+      return
+    }
+
+    if ((next.config.enableTools !== false) !== (currentConfig.enableTools !== false)) {
+      log("warn", "Changing enableTools takes effect after OpenCode restarts")
+    }
+    reportConfigDiagnostics(
+      await loadTokenizerModules(next.config.tokenizers ?? {}, ctx.directory),
+      log,
+      showDiagnosticsToast
+    )
+
+    reportedSkillDiagnostics.clear()
+    skillStore.clear()
+    discovered = discoverSkillTriggers(next.config)
+    currentConfig = mergeSkillTriggers(next.config, discovered.triggers)
+    const nextState = loadInitialSkills(currentConfig, ctx.directory, log, reportSkillDiagnostic)
+
+    sessionManager.reconfigure(currentConfig, nextState)
+    sessionManager.refreshCachedSkills((skill) =>
+      loadSkillFile(skill.filePath, skill.name, reportSkillDiagnostic, {
+        source: skill.source,
+        packageName: skill.packageName,
+        projectDir: ctx.directory,
+        templateEnv: currentConfig.templateEnv,
+      })
+    )
+    for (const skill of nextState.initialSkills) {
+      sessionManager.cacheSkill(skill)
+    }
+
+    Object.assign(pluginContext, {
+      config: currentConfig,
+      resolvedConfig: next,
+      skillTriggers: discovered.triggers,
+      skillResolver: new SkillResolverImpl(currentConfig, ctx.directory, reportSkillDiagnostic, log),
+      ...nextState,
+    })
+    agentProfiles.clear()
+    nestedConfigs.clear()
+
+    watcher?.sync(watchedPaths())
+    log("info", "Reloaded preload-skills config and skills", {
+      initialSkills: nextState.initialSkills.map((s) => s.name),
+    })
+    toast("Reloaded preload-skills config and skills")
+  }
+
+  watcher?.sync(watchedPaths())
+
+  return createHooks(pluginContext, () => watcher?.close())
 }
 
 export default PreloadSkillsPlugin
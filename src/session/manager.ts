@@ -8,10 +8,31 @@ import type {
   PreloadSkillsConfig,
   Logger,
   SessionManager,
+  SectionContext,
+  LoadSkillsResult,
+  InitialSkills,
+  ConflictSettings,
 } from "../types.js"
+import { resolveConflict } from "../skills/conflicts.js"
+import { skillReferenceName } from "../skills/references.js"
+import { withSections } from "../skills/sections.js"
+import { coversAllSections, selectHeadingSections } from "../skills/headings.js"
+import { atTier } from "../skills/tiers.js"
+import { getTokenizer, loadTokenizer } from "../tokenizers.js"
 
 const ANALYTICS_FILENAME = "preload-skills-analytics.json"
 
+/** A new session's state: its initial skills loaded, at their tiers. */
+function createSessionState({ initialSkills, initialTiers, initialTokensUsed }: InitialSkills): SessionState {
+  const tiers = Object.entries(initialTiers)
+  return {
+    initialSkillsInjected: false,
+    loadedSkills: new Set(initialSkills.map((s) => s.name)),
+    ...(tiers.length > 0 && { skillTiers: new Map(tiers) }),
+    totalTokensUsed: initialTokensUsed,
+  }
+}
+
 export class SessionManagerImpl implements SessionManager {
   private readonly sessions = new Map<string, SessionState>()
   private readonly analytics = new Map<string, AnalyticsData>()
@@ -20,39 +41,130 @@ export class SessionManagerImpl implements SessionManager {
   private readonly skillCache = new Map<string, ParsedSkill>()
 
   constructor(
-    private readonly config: PreloadSkillsConfig,
+    private config: PreloadSkillsConfig,
     private readonly projectDir: string,
     private readonly log: Logger,
-    private readonly initialSkillNames: Set<string>,
-    private readonly initialTokensUsed: number
+    private initial: InitialSkills,
+    private readonly onSkillCached?: (skill: ParsedSkill) => void
   ) {}
 
+  /** Applies a hot-reloaded config; existing sessions keep their state. */
+  reconfigure(config: PreloadSkillsConfig, initial: InitialSkills): void {
+    this.config = config
+    this.initial = initial
+  }
+
+  /**
+   * Re-reads every cached skill so live sessions inject the current content.
+   * Skills whose files can no longer be loaded are dropped from the cache.
+   */
+  refreshCachedSkills(load: (skill: ParsedSkill) => ParsedSkill | null): void {
+    for (const [name, skill] of this.skillCache) {
+      const refreshed = load(skill)
+      if (refreshed) {
+        this.skillCache.set(name, refreshed)
+      } else {
+        this.skillCache.delete(name)
+      }
+    }
+  }
+
+  getCachedSkills(): ParsedSkill[] {
+    return [...this.skillCache.values()]
+  }
+
   getState(sessionId: string): SessionState {
     if (!this.sessions.has(sessionId)) {
-      this.sessions.set(sessionId, {
-        initialSkillsInjected: false,
-        loadedSkills: new Set(this.initialSkillNames),
-        totalTokensUsed: this.initialTokensUsed,
-      })
+      this.sessions.set(sessionId, createSessionState(this.initial))
     }
     return this.sessions.get(sessionId)!
   }
 
-  queueSkills(sessionId: string, skills: ParsedSkill[], triggerType: TriggerType): void {
-    const state = this.getState(sessionId)
-    const newSkills = skills.filter(s => !state.loadedSkills.has(s.name))
+  /** Creates a session bound to an agent profile; an existing session is returned unchanged. */
+  startSession(sessionId: string, profile: string, initial: InitialSkills): SessionState {
+    if (!this.sessions.has(sessionId)) {
+      this.sessions.set(sessionId, { profile, ...createSessionState(initial) })
+    }
+    return this.sessions.get(sessionId)!
+  }
 
-    if (newSkills.length === 0) return
+  /**
+   * Marks skills as loaded and queues them for injection. A skill that
+   * conflicts with a loaded one is settled by `conflictResolution`; rejected
+   * skills, and skills that require them, are logged and skipped. Skills in
+   * `loaded.sections` are loaded in part; for one already loaded in part,
+   * only the text of the new sections is queued. Skills in `loaded.tiers`
+   * are loaded at that tier.
+   */
+  queueSkills(
+    sessionId: string,
+    skills: ParsedSkill[],
+    triggerType: TriggerType,
+    loaded: Pick<LoadSkillsResult, "sections" | "tiers"> = {},
+    settings: ConflictSettings = this.config
+  ): void {
+    const state = this.getState(sessionId)
+    const newSkills: ParsedSkill[] = []
+    const rejected = new Set<string>()
 
     let tokensAdded = 0
-    for (const skill of newSkills) {
+    for (const skill of skills) {
+      const slugs = loaded.sections?.[skill.name]
+      const tier = loaded.tiers?.[skill.name]
+      if (state.loadedSkills.has(skill.name)) {
+        const loadedSections = state.loadedSections?.get(skill.name)
+        if (!slugs || !loadedSections) continue
+
+        const added = selectHeadingSections(skill, slugs, loadedSections, state.model)
+        this.addLoadedSections(state, skill, slugs)
+        if (!added) continue
+        this.cacheSkill(skill)
+        tokensAdded += withSections(added, this.getSectionContext(sessionId)).tokenCount
+        this.trackUsage(sessionId, skill.name, triggerType)
+        newSkills.push(added)
+        continue
+      }
+
+      const rejectedDependency = skill.requires?.find((name) => rejected.has(skillReferenceName(name)))
+      const decision = rejectedDependency
+        ? { accept: false, replaces: [], reason: `requires "${rejectedDependency}", which was rejected` }
+        : resolveConflict(skill, this.getAllLoadedSkills(sessionId), {
+            conflictTable: settings.conflicts,
+            resolution: settings.conflictResolution,
+            skillSettings: settings.skillSettings,
+          })
+
+      if (!decision.accept) {
+        rejected.add(skill.name)
+        this.log("info", `Rejected skill "${skill.name}": ${decision.reason}`, {
+          sessionId,
+          triggerType,
+          conflictResolution: settings.conflictResolution,
+        })
+        continue
+      }
+
+      for (const replaced of decision.replaces) {
+        tokensAdded -= this.unloadSkill(sessionId, replaced)
+      }
+      if (decision.replaces.length > 0) {
+        this.log("info", `Loaded skill "${skill.name}": ${decision.reason}`, { sessionId, triggerType })
+      }
+
       state.loadedSkills.add(skill.name)
-      this.skillCache.set(skill.name, skill)
-      tokensAdded += skill.tokenCount
+      state.displacedSkills?.delete(skill.name)
+      if (slugs) this.addLoadedSections(state, skill, slugs)
+      if (tier) (state.skillTiers ??= new Map()).set(skill.name, tier)
+      this.cacheSkill(skill)
+      const view = this.sessionView(state, skill)
+      tokensAdded += withSections(view, this.getSectionContext(sessionId)).tokenCount
       this.trackUsage(sessionId, skill.name, triggerType)
+      newSkills.push(view)
     }
     state.totalTokensUsed += tokensAdded
 
+    if (newSkills.length === 0) return
+
     const existing = this.pendingSkills.get(sessionId) ?? []
     this.pendingSkills.set(sessionId, [...existing, ...newSkills])
 
@@ -63,6 +175,66 @@ export class SessionManagerImpl implements SessionManager {
     })
   }
 
+  /** Records the sections of a skill loaded in part; once they cover it, the skill counts as whole. */
+  private addLoadedSections(state: SessionState, skill: ParsedSkill, slugs: string[]): void {
+    state.loadedSections ??= new Map()
+    const loaded = new Set([...(state.loadedSections.get(skill.name) ?? []), ...slugs])
+    if (coversAllSections(skill.content, loaded)) {
+      state.loadedSections.delete(skill.name)
+    } else {
+      state.loadedSections.set(skill.name, loaded)
+    }
+  }
+
+  /** The skill trimmed to the sections the session loaded and stepped down to its tier, or whole. */
+  private sessionView(state: SessionState, skill: ParsedSkill): ParsedSkill {
+    const loaded = state.loadedSections?.get(skill.name)
+    const view = (loaded && selectHeadingSections(skill, [...loaded], undefined, state.model)) || skill
+    const tier = state.skillTiers?.get(skill.name)
+    return (tier && atTier(view, tier, state.model)) || view
+  }
+
+  /**
+   * Records the model of the session's latest LLM call. When it brings a
+   * different tokenizer, the session's loaded skills, initial ones included,
+   * are counted again so the budget is kept in a single unit. The model's
+   * vocabulary is loaded first, when one is bundled.
+   */
+  async setModel(sessionId: string, model: string): Promise<void> {
+    const state = this.getState(sessionId)
+    const previous = getTokenizer(state.model)
+    state.model = model
+    await loadTokenizer(model)
+    if (getTokenizer(model) === previous) return
+
+    const context = this.getSectionContext(sessionId)
+    state.totalTokensUsed = this.getAllLoadedSkills(sessionId).reduce(
+      (sum, skill) => sum + withSections(skill, context).tokenCount,
+      0
+    )
+  }
+
+  /** Removes a skill displaced by a conflict, returning the tokens freed. */
+  private unloadSkill(sessionId: string, skill: ParsedSkill): number {
+    const state = this.getState(sessionId)
+    if (!state.loadedSkills.delete(skill.name)) return 0
+    state.loadedSections?.delete(skill.name)
+    state.skillTiers?.delete(skill.name)
+    state.displacedSkills ??= new Set()
+    state.displacedSkills.add(skill.name)
+
+    const pending = this.pendingSkills.get(sessionId)
+    if (pending) {
+      this.pendingSkills.set(sessionId, pending.filter((s) => s.name !== skill.name))
+    }
+    return withSections(skill, this.getSectionContext(sessionId)).tokenCount
+  }
+
+  getSectionContext(sessionId: string): SectionContext {
+    const { agent, model, fileTypes } = this.getState(sessionId)
+    return { projectDir: this.projectDir, agent, model, fileTypes: fileTypes && [...fileTypes] }
+  }
+
   getPendingSkills(sessionId: string): ParsedSkill[] {
     return this.pendingSkills.get(sessionId) ?? []
   }
@@ -71,6 +243,10 @@ export class SessionManagerImpl implements SessionManager {
     this.pendingSkills.delete(sessionId)
   }
 
+  viewSkill(sessionId: string, skill: ParsedSkill): ParsedSkill {
+    return this.sessionView(this.getState(sessionId), skill)
+  }
+
   getAllLoadedSkills(sessionId: string): ParsedSkill[] {
     const state = this.sessions.get(sessionId)
     if (!state) return []
@@ -78,7 +254,7 @@ export class SessionManagerImpl implements SessionManager {
     const skills: ParsedSkill[] = []
     for (const name of state.loadedSkills) {
       const skill = this.skillCache.get(name)
-      if (skill) skills.push(skill)
+      if (skill) skills.push(this.sessionView(state, skill))
     }
     return skills
   }
@@ -89,6 +265,7 @@ export class SessionManagerImpl implements SessionManager {
 
   cacheSkill(skill: ParsedSkill): void {
     this.skillCache.set(skill.name, skill)
+    this.onSkillCached?.(skill)
   }
 
   trackFilePath(callId: string, filePath: string): void {
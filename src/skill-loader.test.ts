@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
 import { mkdirSync, writeFileSync, rmSync } from "node:fs"
 import { join } from "node:path"
 import {
@@ -7,8 +7,18 @@ import {
   formatSkillsForInjection,
   calculateTotalTokens,
   filterSkillsByTokenBudget,
+  discoverSkills,
+  getSkillSearchPaths,
+  findShadowedSkills,
+  findPackageSkills,
 } from "./skills/loader.js"
-import type { ParsedSkill } from "./types.js"
+import { collectSkillTriggers } from "./skills/triggers.js"
+import { skillStore } from "./skills/store.js"
+import { selectSections, withSections } from "./skills/sections.js"
+import { listHeadingSections, selectHeadingSections } from "./skills/headings.js"
+import { parseSkillReference } from "./skills/references.js"
+import { estimateTokens } from "./utils.js"
+import type { ParsedSkill, ConfigDiagnostic, BudgetStrategy, SkillSettings } from "./types.js"
 
 describe("skill-loader", () => {
   const testDir = join(process.cwd(), ".test-skills")
@@ -20,6 +30,7 @@ describe("skill-loader", () => {
 
   afterEach(() => {
     rmSync(testDir, { recursive: true, force: true })
+    skillStore.clear()
   })
 
   const createSkill = (name: string, content: string) => {
@@ -155,6 +166,585 @@ ${"a".repeat(100)}`
     })
   })
 
+  describe("frontmatter", () => {
+    it("reads block scalars, quoted values, lists and unknown keys", () => {
+      createSkill(
+        "yaml-skill",
+        `---
+name: "yaml-skill"
+description: |
+  First line.
+  Second line: with a colon.
+license: MIT
+allowed-tools: [Read, Grep]
+metadata:
+  owner: platform
+tags:
+  - react
+  - testing
+---
+Body`
+      )
+
+      const skill = loadSkill("yaml-skill", testDir)
+
+      expect(skill!.name).toBe("yaml-skill")
+      expect(skill!.description).toBe("First line.\nSecond line: with a colon.")
+      expect(skill!.license).toBe("MIT")
+      expect(skill!.allowedTools).toEqual(["Read", "Grep"])
+      expect(skill!.extra).toEqual({ metadata: { owner: "platform" }, tags: ["react", "testing"] })
+      expect(skill!.summary).toBe("Body")
+    })
+
+    it("reports malformed frontmatter with the file and line, and still loads the skill", () => {
+      createSkill("broken", "---\nname: broken\ndescription: [unclosed\n---\nBody")
+      const diagnostics: ConfigDiagnostic[] = []
+
+      const skill = loadSkill("broken", testDir, (d) => diagnostics.push(d))
+
+      expect(skill!.name).toBe("broken")
+      expect(skill!.description).toBe("")
+      expect(diagnostics).toEqual([
+        expect.objectContaining({
+          severity: "error",
+          file: join(skillsDir, "broken", "SKILL.md"),
+          line: 3,
+        }),
+      ])
+    })
+
+    it("warns about known keys with the wrong type", () => {
+      createSkill("typed", "---\nname: typed\ndescription:\n  nested: true\n---\nBody")
+      const diagnostics: ConfigDiagnostic[] = []
+
+      const skill = loadSkill("typed", testDir, (d) => diagnostics.push(d))
+
+      expect(skill!.description).toBe("")
+      expect(diagnostics).toEqual([
+        expect.objectContaining({ severity: "warning", path: "description", message: "Expected a string, got a mapping" }),
+      ])
+    })
+  })
+
+  describe("skill search paths", () => {
+    const homeDir = join(testDir, "home")
+    const originalHome = process.env.HOME
+
+    beforeEach(() => {
+      process.env.HOME = homeDir
+    })
+
+    afterEach(() => {
+      process.env.HOME = originalHome
+    })
+
+    const createSkillIn = (dir: string, name: string, description: string) => {
+      mkdirSync(join(dir, name), { recursive: true })
+      writeFileSync(join(dir, name, "SKILL.md"), `---\ndescription: ${description}\n---\nContent`)
+    }
+
+    it("searches skillPaths in order before the built-in locations", () => {
+      const absoluteDir = join(testDir, "shared")
+      createSkillIn(join(testDir, "tools", "ai", "skills"), "react", "submodule")
+      createSkillIn(absoluteDir, "react", "absolute")
+      createSkillIn(absoluteDir, "vue", "absolute")
+      createSkillIn(join(homeDir, "team-skills"), "svelte", "home")
+      createSkill("vue", "---\ndescription: project\n---\nContent")
+      const options = { skillPaths: ["tools/ai/skills", absoluteDir, "~/team-skills"] }
+
+      expect(getSkillSearchPaths(testDir, options)).toEqual([
+        join(testDir, "tools", "ai", "skills"),
+        absoluteDir,
+        join(homeDir, "team-skills"),
+        join(testDir, ".opencode", "skills"),
+        join(testDir, ".claude", "skills"),
+        join(homeDir, ".config", "opencode", "skills"),
+        join(homeDir, ".claude", "skills"),
+      ])
+      expect(loadSkill("react", testDir, undefined, options)?.description).toBe("submodule")
+      expect(loadSkill("vue", testDir, undefined, options)?.description).toBe("absolute")
+      expect(loadSkill("svelte", testDir, undefined, options)?.description).toBe("home")
+      expect(loadSkill("svelte", testDir)).toBeNull()
+    })
+
+    it("lets skillPaths move a built-in location ahead", () => {
+      createSkillIn(join(testDir, "tools", "ai", "skills"), "vue", "submodule")
+      createSkill("vue", "---\ndescription: project\n---\nContent")
+
+      const skills = discoverSkills(testDir, undefined, { skillPaths: [".opencode/skills", "tools/ai/skills"] })
+
+      expect(skills.get("vue")?.description).toBe("project")
+    })
+
+    it("loads namespaced references from one layer or package", () => {
+      createSkillIn(join(homeDir, ".claude", "skills"), "react", "user")
+      createSkill("react", "---\ndescription: project\n---\nContent")
+      const packageDir = join(testDir, "node_modules", "@acme", "skills")
+      mkdirSync(packageDir, { recursive: true })
+      writeFileSync(join(packageDir, "package.json"), JSON.stringify({ name: "@acme/skills" }))
+      createSkillIn(join(packageDir, "skills"), "react", "package")
+
+      expect(loadSkill("react", testDir)).toMatchObject({ description: "project", source: "project" })
+      expect(loadSkill("project:react", testDir)).toMatchObject({ description: "project", source: "project" })
+      expect(loadSkill("user:react", testDir)).toMatchObject({ description: "user", source: "user" })
+      expect(loadSkill("pkg:@acme/skills/react", testDir)).toMatchObject({
+        description: "package",
+        source: "package",
+        packageName: "@acme/skills",
+      })
+      expect(loadSkill("user:react", testDir, undefined, { globalSkills: false })).toBeNull()
+      expect(loadSkill("pkg:@acme/skills", testDir)).toBeNull()
+      expect(loadSkill("pkg:@acme/other/react", testDir)).toBeNull()
+    })
+
+    it("reports skills shadowed by an earlier search path", () => {
+      createSkillIn(join(homeDir, ".claude", "skills"), "react", "user")
+      createSkillIn(join(homeDir, ".config", "opencode", "skills"), "react", "global")
+      createSkillIn(join(homeDir, ".claude", "skills"), "vue", "user")
+      createSkill("react", "---\ndescription: project\n---\nContent")
+
+      expect(findShadowedSkills(testDir)).toEqual([
+        {
+          name: "react",
+          filePath: join(skillsDir, "react", "SKILL.md"),
+          shadowed: [
+            join(homeDir, ".config", "opencode", "skills", "react", "SKILL.md"),
+            join(homeDir, ".claude", "skills", "react", "SKILL.md"),
+          ],
+        },
+      ])
+      expect(findShadowedSkills(testDir, { globalSkills: false })).toEqual([])
+    })
+
+    it("skips the home-directory locations when globalSkills is false", () => {
+      createSkillIn(join(homeDir, ".config", "opencode", "skills"), "personal", "global")
+
+      expect(loadSkill("personal", testDir)?.description).toBe("global")
+      expect(loadSkill("personal", testDir, undefined, { globalSkills: false })).toBeNull()
+      expect(getSkillSearchPaths(testDir, { globalSkills: false })).toEqual([
+        join(testDir, ".opencode", "skills"),
+        join(testDir, ".claude", "skills"),
+      ])
+    })
+  })
+
+  describe("package skills", () => {
+    const createPackage = (name: string, packageJson: Record<string, unknown>, skills: Record<string, string>) => {
+      const packageDir = join(testDir, "node_modules", name)
+      mkdirSync(packageDir, { recursive: true })
+      writeFileSync(join(packageDir, "package.json"), JSON.stringify({ name, ...packageJson }))
+      for (const [path, content] of Object.entries(skills)) {
+        mkdirSync(join(packageDir, path, ".."), { recursive: true })
+        writeFileSync(join(packageDir, path), content)
+      }
+    }
+
+    beforeEach(() => {
+      writeFileSync(
+        join(testDir, "package.json"),
+        JSON.stringify({ dependencies: { "@acme/ui": "1.0.0" }, devDependencies: { "acme-db": "1.0.0" } })
+      )
+      createPackage("@acme/ui", {}, { "skills/acme-ui/SKILL.md": "---\ndescription: UI\n---\nUI Content" })
+      createPackage(
+        "acme-db",
+        { opencode: { skills: "docs/skills" } },
+        {
+          "docs/skills/acme-db/SKILL.md": "---\ndescription: DB\n---\nDB Content",
+          "skills/ignored/SKILL.md": "Ignored",
+        }
+      )
+      createPackage("acme-unused", {}, { "skills/unused/SKILL.md": "Unused" })
+    })
+
+    it("finds skills in the dependencies' skills/ or opencode.skills directories", () => {
+      expect(findPackageSkills(testDir, { packageSkills: true })).toEqual(["acme-ui", "acme-db"])
+      expect(findPackageSkills(testDir, { packageSkills: false })).toEqual([])
+      expect(findPackageSkills(testDir)).toEqual([])
+    })
+
+    it("loads package skills by name, after project skills", () => {
+      createSkill("acme-db", "---\ndescription: Project DB\n---\nOverride")
+
+      const options = { packageSkills: true }
+
+      expect(loadSkill("acme-ui", testDir, undefined, options)).toMatchObject({
+        source: "package",
+        packageName: "@acme/ui",
+      })
+      expect(loadSkill("acme-db", testDir, undefined, options)).toMatchObject({
+        description: "Project DB",
+        source: "project",
+      })
+      expect(loadSkill("pkg:acme-db/acme-db", testDir)).toMatchObject({ description: "DB", packageName: "acme-db" })
+      expect(loadSkill("unused", testDir, undefined, options)).toBeNull()
+      expect(loadSkill("acme-ui", testDir)).toBeNull()
+    })
+  })
+
+  describe("template variables", () => {
+    beforeEach(() => {
+      writeFileSync(
+        join(testDir, "package.json"),
+        JSON.stringify({ name: "acme-web", dependencies: { react: "^18.2.0" }, private: true })
+      )
+      mkdirSync(join(testDir, ".git"))
+      writeFileSync(join(testDir, ".git", "HEAD"), "ref: refs/heads/feature/login\n")
+      process.env.ACME_API_URL = "https://api.example.com"
+      process.env.ACME_SECRET = "hunter2"
+    })
+
+    afterEach(() => {
+      delete process.env.ACME_API_URL
+      delete process.env.ACME_SECRET
+    })
+
+    it("fills in project facts", () => {
+      createSkill(
+        "facts",
+        [
+          "---",
+          "name: facts",
+          "---",
+          "{{package.name}} uses React {{ package.dependencies.react }} (private: {{package.private}}).",
+          "API: {{env.ACME_API_URL}}, branch: {{git.branch}}, dir: {{projectDir}}",
+        ].join("\n")
+      )
+
+      const skill = loadSkill("facts", testDir, undefined, { templateEnv: ["ACME_API_URL"] })
+
+      expect(skill!.content).toContain("acme-web uses React ^18.2.0 (private: true).")
+      expect(skill!.content).toContain(`API: https://api.example.com, branch: feature/login, dir: ${testDir}`)
+      expect(skill!.tokenCount).toBe(estimateTokens(skill!.content))
+    })
+
+    it("fills in new project facts when the package.json or branch changes", () => {
+      createSkill("facts", "---\nname: facts\n---\n{{package.name}} on {{git.branch}}")
+      expect(loadSkill("facts", testDir)!.content).toContain("acme-web on feature/login")
+
+      writeFileSync(join(testDir, "package.json"), JSON.stringify({ name: "acme-website" }))
+      expect(loadSkill("facts", testDir)!.content).toContain("acme-website on feature/login")
+
+      writeFileSync(join(testDir, ".git", "HEAD"), "ref: refs/heads/main\n")
+      expect(loadSkill("facts", testDir)!.content).toContain("acme-website on main")
+    })
+
+    it("warns about unknown and refused variables and drops them", () => {
+      createSkill("vars", "---\nname: vars\n---\n[{{package.nme}}][{{env.ACME_SECRET}}][{{env.ACME_UNSET}}]")
+      const diagnostics: ConfigDiagnostic[] = []
+
+      const skill = loadSkill("vars", testDir, (d) => diagnostics.push(d), { templateEnv: ["ACME_UNSET"] })
+
+      expect(skill!.content).toContain("[][][]")
+      expect(skill!.content).not.toContain("hunter2")
+      expect(diagnostics.map((d) => d.message)).toEqual([
+        "Unknown template variable {{package.nme}}",
+        'Environment variable "ACME_SECRET" is not in templateEnv, so {{env.ACME_SECRET}} was left empty',
+        'Environment variable "ACME_UNSET" is not set',
+      ])
+    })
+
+    it("leaves other double-brace syntax alone", () => {
+      createSkill("vue", "---\nname: vue\n---\n<p>{{ message }}</p>\n{{#each items}}{{this}}{{/each}}")
+
+      expect(loadSkill("vue", testDir)!.content).toContain("<p>{{ message }}</p>\n{{#each items}}{{this}}{{/each}}")
+    })
+  })
+
+  describe("conditional sections", () => {
+    const content = [
+      "# Skill",
+      "Always",
+      "<!-- if agent=plan -->",
+      "Planning",
+      "<!-- endif -->",
+      "<!-- if fileType=ts,.tsx -->",
+      "TypeScript",
+      "<!-- if model=anthropic/* -->",
+      "Anthropic TypeScript",
+      "<!-- endif -->",
+      "<!-- endif -->",
+      "<!-- if envVar=ACME_SECTION_FLAG agent=build -->",
+      "Flagged build",
+      "<!-- endif -->",
+    ].join("\n")
+
+    afterEach(() => {
+      delete process.env.ACME_SECTION_FLAG
+    })
+
+    it("keeps the sections whose conditions hold", () => {
+      expect(selectSections(content, { projectDir: testDir })).toBe("# Skill\nAlways")
+      expect(selectSections(content, { projectDir: testDir, agent: "plan" })).toBe("# Skill\nAlways\nPlanning")
+      expect(selectSections(content, { projectDir: testDir, fileTypes: [".TS"], model: "openai/gpt-5" })).toBe(
+        "# Skill\nAlways\nTypeScript"
+      )
+      expect(selectSections(content, { projectDir: testDir, fileTypes: [".tsx"], model: "anthropic/claude" })).toBe(
+        "# Skill\nAlways\nTypeScript\nAnthropic TypeScript"
+      )
+
+      expect(selectSections(content, { projectDir: testDir, agent: "build" })).not.toContain("Flagged build")
+      process.env.ACME_SECTION_FLAG = "1"
+      expect(selectSections(content, { projectDir: testDir, agent: "build" })).toContain("Flagged build")
+    })
+
+    it("formats only the sections for the session, counting the trimmed skill", () => {
+      createSkill("sections", `---\nname: sections\n---\n${content}`)
+      const skill = loadSkill("sections", testDir)!
+
+      const formatted = formatSkillsForInjection([skill], { sections: { projectDir: testDir, agent: "plan" } })
+      const trimmed = withSections(skill, { projectDir: testDir, agent: "plan" })
+
+      expect(formatted).toContain("Planning")
+      expect(formatted).not.toContain("TypeScript")
+      expect(formatted).not.toContain("<!-- if")
+      expect(trimmed.tokenCount).toBe(estimateTokens(trimmed.content))
+      expect(trimmed.tokenCount).toBeLessThan(skill.tokenCount)
+      expect(formatSkillsForInjection([skill])).toContain("Anthropic TypeScript")
+    })
+
+    it("warns about malformed and unbalanced markers", () => {
+      createSkill("bad", "---\nname: bad\n---\n<!-- if agnt=plan -->\nA\n<!-- endif -->\n<!-- endif -->\n<!-- if plan -->")
+      const diagnostics: ConfigDiagnostic[] = []
+
+      loadSkill("bad", testDir, (d) => diagnostics.push(d))
+
+      expect(diagnostics.map(({ line, message }) => ({ line, message }))).toEqual([
+        { line: 4, message: expect.stringContaining('Unknown section condition "agnt"') },
+        { line: 7, message: "<!-- endif --> without a matching <!-- if ... -->" },
+        { line: 8, message: 'Expected key=value, got "plan"' },
+        { line: 8, message: "<!-- if ... --> is never closed, so the section runs to the end of the skill" },
+      ])
+    })
+  })
+
+  describe("heading sections", () => {
+    const content = [
+      "---",
+      "name: api",
+      "---",
+      "# API Design",
+      "Intro",
+      "## Error responses",
+      "Errors",
+      "### Status codes",
+      "Codes",
+      "```md",
+      "## Not a heading",
+      "```",
+      "## Pagination",
+      "Pages",
+      "## Error Responses!",
+      "Again",
+    ].join("\n")
+
+    it("parses a section after the skill reference", () => {
+      expect(parseSkillReference("api#error-responses")).toEqual({ name: "api", section: "error-responses" })
+      expect(parseSkillReference("pkg:@acme/skills/api#pagination")).toEqual({
+        name: "api",
+        source: "package",
+        packageName: "@acme/skills",
+        section: "pagination",
+      })
+    })
+
+    it("addresses sections by heading slug, outside code blocks", () => {
+      expect(listHeadingSections(content)).toEqual(["error-responses", "status-codes", "pagination", "error-responses-1"])
+    })
+
+    it("keeps the preamble and the named sections with their subsections", () => {
+      createSkill("api", content)
+      const skill = loadSkill("api", testDir)!
+
+      const view = selectHeadingSections(skill, ["pagination", "error-responses"])!
+
+      expect(view.content).toBe(
+        "---\nname: api\n---\n# API Design\nIntro\n## Error responses\nErrors\n### Status codes\nCodes\n" +
+          "```md\n## Not a heading\n```\n## Pagination\nPages"
+      )
+      expect(view.sections).toEqual(["pagination", "error-responses"])
+      expect(view.tokenCount).toBe(estimateTokens(view.content))
+    })
+
+    it("keeps only the text missing from the loaded sections", () => {
+      createSkill("api", content)
+      const skill = loadSkill("api", testDir)!
+
+      expect(selectHeadingSections(skill, ["pagination"], ["error-responses"])!.content).toBe("## Pagination\nPages")
+      expect(selectHeadingSections(skill, ["status-codes"], ["error-responses"])).toBeNull()
+    })
+  })
+
+  describe("skill store", () => {
+    it("reuses a parsed skill until the file or an included file changes", () => {
+      createSkill("cached", "---\nname: cached\n---\n{{include extra.md}}")
+      writeFileSync(join(skillsDir, "cached", "extra.md"), "Extra")
+
+      const first = loadSkill("cached", testDir)
+      expect(loadSkill("cached", testDir)).toBe(first)
+
+      writeFileSync(join(skillsDir, "cached", "extra.md"), "Changed extra")
+      const second = loadSkill("cached", testDir)
+      expect(second).not.toBe(first)
+      expect(second!.content).toContain("Changed extra")
+
+      createSkill("cached", "---\nname: cached\n---\nNo include anymore")
+      expect(loadSkill("cached", testDir)!.content).toContain("No include anymore")
+    })
+
+    it("reports the problems of a stored skill on every load", () => {
+      createSkill("broken", "---\nname: broken\npriority: high\n---\nContent")
+      const diagnostics: ConfigDiagnostic[] = []
+
+      loadSkill("broken", testDir, (d) => diagnostics.push(d))
+      loadSkill("broken", testDir, (d) => diagnostics.push(d))
+
+      expect(diagnostics).toHaveLength(2)
+      expect(diagnostics[1]).toEqual(diagnostics[0])
+    })
+
+    it("finds a skill created after a lookup missed it", () => {
+      expect(loadSkill("late", testDir)).toBeNull()
+      createSkill("late", "---\nname: late\n---\nContent")
+
+      expect(loadSkill("late", testDir)?.name).toBe("late")
+    })
+
+    it("remembers a miss until a skill directory is created", () => {
+      const searches: string[] = []
+      const lookup = skillStore.lookup.bind(skillStore)
+      const spy = vi.spyOn(skillStore, "lookup").mockImplementation((key, find, options) => {
+        const search = () => {
+          if (key.startsWith("skill:")) searches.push(key)
+          return find()
+        }
+        return lookup(key, search, options)
+      })
+
+      try {
+        expect(loadSkill("late", testDir)).toBeNull()
+        expect(loadSkill("late", testDir)).toBeNull()
+        expect(searches).toHaveLength(1)
+
+        createSkill("late", "---\nname: late\n---\nContent")
+        expect(loadSkill("late", testDir)?.name).toBe("late")
+        expect(searches).toHaveLength(2)
+      } finally {
+        spy.mockRestore()
+      }
+    })
+
+    it("searches the skills of a dependency added after the first lookup", () => {
+      const options = { packageSkills: true }
+      expect(loadSkill("acme-late", testDir, undefined, options)).toBeNull()
+
+      const packageDir = join(testDir, "node_modules", "acme-late")
+      mkdirSync(join(packageDir, "skills", "acme-late"), { recursive: true })
+      writeFileSync(join(packageDir, "package.json"), JSON.stringify({ name: "acme-late" }))
+      writeFileSync(join(packageDir, "skills", "acme-late", "SKILL.md"), "---\nname: acme-late\n---\nLate")
+      writeFileSync(join(testDir, "package.json"), JSON.stringify({ dependencies: { "acme-late": "1.0.0" } }))
+
+      expect(loadSkill("acme-late", testDir, undefined, options)).toMatchObject({ source: "package" })
+    })
+
+    it("looks a skill up again when its file is deleted", () => {
+      createSkill("moved", "---\ndescription: project\n---\nContent")
+      const claudeDir = join(testDir, ".claude", "skills", "moved")
+      mkdirSync(claudeDir, { recursive: true })
+      writeFileSync(join(claudeDir, "SKILL.md"), "---\ndescription: claude\n---\nContent")
+
+      expect(loadSkill("moved", testDir)?.description).toBe("project")
+      rmSync(join(skillsDir, "moved"), { recursive: true })
+      expect(loadSkill("moved", testDir)?.description).toBe("claude")
+    })
+  })
+
+  describe("discoverSkills", () => {
+    it("finds every skill, reading the triggers it declares", () => {
+      createSkill("react", "---\nname: react\nfileTypes: tsx, jsx\npaths: src/{components,pages}/**\n---\nReact")
+      createSkill("plain", "---\nname: plain\n---\nPlain")
+      mkdirSync(join(skillsDir, "empty"))
+
+      const skills = discoverSkills(testDir)
+
+      expect([...skills.keys()].sort()).toEqual(["plain", "react"])
+      expect(skills.get("react")!.triggers).toEqual({
+        fileTypes: [".tsx", ".jsx"],
+        paths: ["src/{components,pages}/**"],
+      })
+      expect(skills.get("plain")!.triggers).toBeUndefined()
+    })
+
+    it("lets a skill in an earlier search path shadow one of the same name", () => {
+      createSkill("react", "---\nname: react\nkeywords: [react]\n---\nProject")
+      const claudeSkill = join(testDir, ".claude", "skills", "react")
+      mkdirSync(claudeSkill, { recursive: true })
+      writeFileSync(join(claudeSkill, "SKILL.md"), "---\nname: react\nkeywords: [jsx]\n---\nClaude")
+
+      const triggers = collectSkillTriggers(discoverSkills(testDir))
+
+      expect(triggers.contentTriggers).toEqual({ react: ["react"] })
+    })
+  })
+
+  describe("bundled files", () => {
+    const writeSkillFile = (skill: string, path: string, content: string) => {
+      mkdirSync(join(skillsDir, skill, path, ".."), { recursive: true })
+      writeFileSync(join(skillsDir, skill, path), content)
+    }
+
+    it("inlines included files, nested includes too", () => {
+      createSkill("api", "---\nname: api\n---\n# API\n\n{{include references/api.md}}\n\nEnd")
+      writeSkillFile("api", "references/api.md", "Endpoints\n{{ include errors.md }}\n")
+      writeSkillFile("api", "errors.md", "Errors\n")
+
+      const skill = loadSkill("api", testDir)
+
+      expect(skill!.content).toBe("---\nname: api\n---\n# API\n\nEndpoints\nErrors\n\nEnd")
+      expect(skill!.includedFiles).toEqual([
+        join(skillsDir, "api", "references", "api.md"),
+        join(skillsDir, "api", "errors.md"),
+      ])
+      expect(skill!.tokenCount).toBe(estimateTokens(skill!.content))
+    })
+
+    it("reports includes that are missing, outside the skill or circular", () => {
+      createSkill("api", "---\nname: api\n---\n{{include missing.md}}{{include ../other/SKILL.md}}{{include a.md}}")
+      writeSkillFile("api", "a.md", "A{{include a.md}}")
+      const diagnostics: ConfigDiagnostic[] = []
+
+      const skill = loadSkill("api", testDir, (d) => diagnostics.push(d))
+
+      expect(skill!.content).toBe("---\nname: api\n---\nA")
+      expect(diagnostics.map((d) => d.message)).toEqual([
+        'Cannot include "missing.md": file not found',
+        'Cannot include "../other/SKILL.md": only files inside the skill directory can be included',
+        expect.stringContaining("Circular include"),
+      ])
+    })
+
+    it("lists declared resources after the skill instead of inlining them", () => {
+      createSkill(
+        "api",
+        "---\nname: api\nresources:\n  - references/full.md\n  - path: schema.json\n    description: OpenAPI schema\n  - nope.md\n---\nBody"
+      )
+      writeSkillFile("api", "references/full.md", "Huge reference")
+      writeSkillFile("api", "schema.json", "{}")
+      const diagnostics: ConfigDiagnostic[] = []
+
+      const skill = loadSkill("api", testDir, (d) => diagnostics.push(d))
+      const formatted = formatSkillsForInjection([skill!])
+
+      expect(skill!.resources).toEqual([
+        { path: "references/full.md" },
+        { path: "schema.json", description: "OpenAPI schema" },
+      ])
+      expect(diagnostics).toEqual([expect.objectContaining({ path: "resources", message: 'Resource "nope.md" does not exist' })])
+      expect(formatted).toContain("- `references/full.md`")
+      expect(formatted).toContain("- `schema.json` — OpenAPI schema")
+      expect(formatted).not.toContain("Huge reference")
+    })
+  })
+
   describe("loadSkills", () => {
     it("loads multiple skills", () => {
       createSkill("skill-a", "---\nname: skill-a\ndescription: A\n---\nContent A")
@@ -390,5 +980,176 @@ ${"a".repeat(100)}`
       expect(result).toHaveLength(1)
       expect(result[0]!.name).toBe("small")
     })
+
+    it("drops a skill whose dependency did not fit", () => {
+      const withDependencies: ParsedSkill[] = [
+        { name: "core", description: "", content: "", filePath: "", tokenCount: 500 },
+        { name: "testing", description: "", content: "", filePath: "", tokenCount: 100, requires: ["core"] },
+        { name: "small", description: "", content: "", filePath: "", tokenCount: 100 },
+      ]
+
+      const result = filterSkillsByTokenBudget(withDependencies, 300)
+
+      expect(result.map((s) => s.name)).toEqual(["small"])
+    })
+
+    it("steps skills down a tier, the last first, before dropping any", () => {
+      const tiered = (name: string): ParsedSkill => ({
+        name,
+        description: "d".repeat(20),
+        summary: "s".repeat(100),
+        condensed: "c".repeat(400),
+        content: "f".repeat(1000),
+        filePath: "",
+        tokenCount: 250,
+      })
+
+      const tiersFor = (maxTokens: number) =>
+        filterSkillsByTokenBudget([tiered("a"), tiered("b")], maxTokens).map((s) => s.tier ?? "full")
+
+      expect(tiersFor(500)).toEqual(["full", "full"])
+      expect(tiersFor(400)).toEqual(["full", "condensed"])
+      expect(tiersFor(200)).toEqual(["condensed", "condensed"])
+      expect(tiersFor(60)).toEqual(["summary", "summary"])
+      expect(tiersFor(30)).toEqual(["summary", "description"])
+      expect(tiersFor(12)).toEqual(["description", "description"])
+      expect(tiersFor(5)).toEqual(["description"])
+    })
+
+    it("steps the lowest ranked skills all the way down before touching higher ranked ones", () => {
+      const skill = (name: string, content: string, summary?: string, priority?: number): ParsedSkill => ({
+        name,
+        description: "dddd",
+        ...(summary && { summary }),
+        content,
+        filePath: "",
+        tokenCount: content.length / 4,
+        ...(priority && { priority }),
+      })
+      const skills = [
+        skill("a", "f".repeat(400), "s".repeat(40), 5),
+        skill("b", "f".repeat(400), "s".repeat(40), 5),
+        skill("c", "f".repeat(40)),
+      ]
+
+      const result = filterSkillsByTokenBudget(skills, 105, { strategy: "priority" })
+
+      expect(result.map((s) => [s.name, s.tier ?? "full"])).toEqual([
+        ["a", "full"],
+        ["b", "description"],
+        ["c", "description"],
+      ])
+      expect(calculateTotalTokens(result)).toBe(102)
+    })
+
+    describe("strategies", () => {
+      const budgetSkills: ParsedSkill[] = [
+        { name: "large", description: "", content: "", filePath: "", tokenCount: 300 },
+        { name: "critical", description: "", content: "", filePath: "", tokenCount: 100, priority: 10 },
+        { name: "medium", description: "", content: "", filePath: "", tokenCount: 150, priority: 2 },
+        { name: "small", description: "", content: "", filePath: "", tokenCount: 50, priority: 1 },
+      ]
+      const namesFor = (strategy: BudgetStrategy, skillSettings?: Record<string, SkillSettings>) =>
+        filterSkillsByTokenBudget(budgetSkills, 300, { strategy, skillSettings }).map((s) => s.name)
+
+      it("favours the listed order, priorities, the most skills or the most value", () => {
+        expect(namesFor("order")).toEqual(["large"])
+        expect(namesFor("priority")).toEqual(["critical", "medium", "small"])
+        expect(namesFor("maximize-count")).toEqual(["critical", "medium", "small"])
+        expect(namesFor("maximize-value", { large: { priority: 20 } })).toEqual(["large"])
+        expect(namesFor("priority", { large: { priority: 20 } })).toEqual(["large"])
+      })
+
+      it("picks the most valuable set that fits, not the greedy one", () => {
+        const skills: ParsedSkill[] = [
+          { name: "a", description: "", content: "", filePath: "", tokenCount: 60, priority: 5 },
+          { name: "b", description: "", content: "", filePath: "", tokenCount: 50, priority: 4 },
+          { name: "c", description: "", content: "", filePath: "", tokenCount: 50, priority: 4 },
+        ]
+
+        const names = (strategy: BudgetStrategy) =>
+          filterSkillsByTokenBudget(skills, 100, { strategy }).map((s) => s.name)
+
+        expect(names("priority")).toEqual(["a"])
+        expect(names("maximize-value")).toEqual(["b", "c"])
+      })
+
+      it("reports every skill left out and why", () => {
+        const excluded: string[] = []
+        const skills: ParsedSkill[] = [
+          ...budgetSkills,
+          { name: "needs-large", description: "", content: "", filePath: "", tokenCount: 10, requires: ["large"] },
+        ]
+
+        filterSkillsByTokenBudget(skills, 300, {
+          strategy: "maximize-value",
+          onExcluded: (skill, reason) => excluded.push(`${skill.name}: ${reason}`),
+        })
+
+        expect(excluded).toEqual([
+          "large: not in the most valuable set of skills that fits in 300 tokens",
+          "needs-large: requires \"large\", which was left out",
+        ])
+      })
+    })
+
+    it("moves kept skills back up once a dropped skill frees room", () => {
+      const result = filterSkillsByTokenBudget(
+        [
+          { name: "a", description: "Short", summary: "s".repeat(40), content: "", filePath: "", tokenCount: 50 },
+          { name: "huge", description: "", content: "", filePath: "", tokenCount: 500 },
+        ],
+        60
+      )
+
+      expect(result.map((s) => [s.name, s.tier ?? "full"])).toEqual([["a", "full"]])
+    })
+  })
+
+  describe("skill dependencies", () => {
+    it("loads required skills transitively, dependencies first", () => {
+      createSkill("nestjs-testing", "---\nname: nestjs-testing\nrequires: [nestjs-core]\n---\nTesting")
+      createSkill("nestjs-core", "---\nname: nestjs-core\nrequires: typescript\n---\nCore")
+      createSkill("typescript", "---\nname: typescript\n---\nTS")
+
+      const skills = loadSkills(["nestjs-testing", "typescript"], testDir)
+
+      expect(skills.map((s) => s.name)).toEqual(["typescript", "nestjs-core", "nestjs-testing"])
+    })
+
+    it("skips a skill whose dependency is missing", () => {
+      createSkill("orphan", "---\nname: orphan\nrequires: [missing]\n---\nOrphan")
+      createSkill("other", "---\nname: other\n---\nOther")
+      const diagnostics: ConfigDiagnostic[] = []
+
+      const skills = loadSkills(["orphan", "other"], testDir, (d) => diagnostics.push(d))
+
+      expect(skills.map((s) => s.name)).toEqual(["other"])
+      expect(diagnostics).toEqual([
+        expect.objectContaining({ severity: "warning", path: "requires", message: expect.stringContaining('"missing"') }),
+      ])
+    })
+
+    it("reports dependency cycles and still loads the skills once", () => {
+      createSkill("a", "---\nname: a\nrequires: [b]\n---\nA")
+      createSkill("b", "---\nname: b\nrequires: [a]\n---\nB")
+      const diagnostics: ConfigDiagnostic[] = []
+
+      const skills = loadSkills(["a"], testDir, (d) => diagnostics.push(d))
+
+      expect(skills.map((s) => s.name)).toEqual(["b", "a"])
+      expect(diagnostics).toEqual([
+        expect.objectContaining({ severity: "error", message: "Circular requires: a → b → a" }),
+      ])
+    })
+
+    it("injects dependencies before the skills that need them", () => {
+      const result = formatSkillsForInjection([
+        { name: "testing", description: "", content: "Testing", filePath: "", tokenCount: 1, requires: ["core"] },
+        { name: "core", description: "", content: "Core", filePath: "", tokenCount: 1 },
+      ])
+
+      expect(result.indexOf("Core")).toBeLessThan(result.indexOf("Testing"))
+    })
   })
 })
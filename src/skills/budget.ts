@@ -0,0 +1,93 @@
+import type { BudgetStrategy, ParsedSkill, SkillSettings } from "../types.js"
+import { getSkillPriority } from "./conflicts.js"
+import { skillReferenceName } from "./references.js"
+
+/** Above this many tokens, knapsack weights are scaled down to keep the table small. */
+const MAX_KNAPSACK_CAPACITY = 10_000
+
+/** What a skill is worth to `maximize-value`: its priority plus one, so unprioritized skills still count. */
+function skillValue(skill: ParsedSkill, skillSettings?: Record<string, SkillSettings>): number {
+  return Math.max(getSkillPriority(skill, skillSettings), 0) + 1
+}
+
+/**
+ * Orders skills by their claim on the budget, strongest first. `smallest`
+ * gives each skill's smallest token count, for `maximize-count`. Sorting is
+ * stable, so ties keep the listed order.
+ */
+export function rankForBudget(
+  skills: ParsedSkill[],
+  strategy: BudgetStrategy,
+  skillSettings: Record<string, SkillSettings> | undefined,
+  smallest: (skill: ParsedSkill) => number
+): ParsedSkill[] {
+  switch (strategy) {
+    case "priority":
+    case "maximize-value":
+      return [...skills].sort((a, b) => getSkillPriority(b, skillSettings) - getSkillPriority(a, skillSettings))
+    case "maximize-count":
+      return [...skills].sort((a, b) => smallest(a) - smallest(b))
+    default:
+      return skills
+  }
+}
+
+/** The first skill `skill` requires that is in `dropped`. */
+export function droppedDependency(skill: ParsedSkill, dropped: ReadonlySet<string>): string | undefined {
+  return skill.requires?.find((dependency) => dropped.has(skillReferenceName(dependency)))
+}
+
+/** Takes skills in turn while they fit; a skill whose dependency was left out is left out too. */
+export function packInOrder(skills: ParsedSkill[], maxTokens: number): Set<number> {
+  const kept = new Set<number>()
+  const dropped = new Set<string>()
+  let totalTokens = 0
+
+  skills.forEach((skill, index) => {
+    if (!droppedDependency(skill, dropped) && totalTokens + skill.tokenCount <= maxTokens) {
+      kept.add(index)
+      totalTokens += skill.tokenCount
+    } else {
+      dropped.add(skill.name)
+    }
+  })
+  return kept
+}
+
+/**
+ * Picks the skills with the highest total value that fit (0/1 knapsack).
+ * Large budgets are scaled down with weights rounded up, so the pick never
+ * overflows `maxTokens` but may leave a little room unused.
+ */
+export function packByValue(
+  skills: ParsedSkill[],
+  maxTokens: number,
+  skillSettings?: Record<string, SkillSettings>
+): Set<number> {
+  const scale = Math.max(1, maxTokens / MAX_KNAPSACK_CAPACITY)
+  const capacity = Math.max(0, Math.floor(maxTokens / scale))
+  const weights = skills.map((skill) => Math.ceil(skill.tokenCount / scale))
+  const best = new Array<number>(capacity + 1).fill(0)
+  const taken = skills.map(() => new Uint8Array(capacity + 1))
+
+  skills.forEach((skill, index) => {
+    const value = skillValue(skill, skillSettings)
+    for (let room = capacity; room >= weights[index]!; room--) {
+      const withSkill = best[room - weights[index]!]! + value
+      if (withSkill > best[room]!) {
+        best[room] = withSkill
+        taken[index]![room] = 1
+      }
+    }
+  })
+
+  const kept = new Set<number>()
+  let room = capacity
+  for (let index = skills.length - 1; index >= 0; index--) {
+    if (taken[index]![room]) {
+      kept.add(index)
+      room -= weights[index]!
+    }
+  }
+  return kept
+}
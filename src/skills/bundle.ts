@@ -0,0 +1,76 @@
+import { existsSync, readFileSync, statSync } from "node:fs"
+import { isAbsolute, relative, resolve } from "node:path"
+import type { DiagnosticReporter, SkillResource } from "../types.js"
+
+const INCLUDE_PATTERN = /\{\{\s*include\s+([^\s}]+)\s*\}\}/g
+
+/**
+ * Resolves a path given relative to a skill's directory, or returns null
+ * when it points outside the directory.
+ */
+export function resolveSkillPath(skillDir: string, path: string): string | null {
+  const resolved = resolve(skillDir, path)
+  const fromDir = relative(skillDir, resolved)
+  if (!fromDir || fromDir.startsWith("..") || isAbsolute(fromDir)) return null
+  return resolved
+}
+
+/**
+ * Replaces `{{include <path>}}` directives with the contents of the named
+ * file in the skill's directory. Included files may include others; a
+ * directive that is missing, outside the directory or part of a cycle is
+ * reported and dropped. Returns the expanded content and every file read.
+ */
+export function expandIncludes(
+  content: string,
+  skillDir: string,
+  filePath: string,
+  onDiagnostic?: DiagnosticReporter
+): { content: string; includedFiles: string[] } {
+  const includedFiles: string[] = []
+
+  const expand = (text: string, file: string, chain: string[]): string =>
+    text.replace(INCLUDE_PATTERN, (_directive, path: string) => {
+      const report = (message: string) => {
+        onDiagnostic?.({ severity: "warning", file, path: "", message })
+        return ""
+      }
+
+      const target = resolveSkillPath(skillDir, path)
+      if (!target) return report(`Cannot include "${path}": only files inside the skill directory can be included`)
+      if (chain.includes(target)) return report(`Circular include: ${[...chain, target].join(" → ")}`)
+
+      let included: string
+      try {
+        included = readFileSync(target, "utf-8")
+      } catch {
+        return report(`Cannot include "${path}": file not found`)
+      }
+
+      if (!includedFiles.includes(target)) includedFiles.push(target)
+      return expand(included.replace(/\n$/, ""), target, [...chain, target])
+    })
+
+  return { content: expand(content, filePath, [filePath]), includedFiles }
+}
+
+function resourceProblem(resource: SkillResource, skillDir: string): string | undefined {
+  const target = resolveSkillPath(skillDir, resource.path)
+  if (!target) return `Resource "${resource.path}" is outside the skill directory`
+  if (!existsSync(target) || !statSync(target).isFile()) return `Resource "${resource.path}" does not exist`
+  return undefined
+}
+
+/** Checks that each declared resource is a file inside the skill directory, dropping the others. */
+export function checkSkillResources(
+  resources: SkillResource[],
+  skillDir: string,
+  filePath: string,
+  onDiagnostic?: DiagnosticReporter
+): SkillResource[] {
+  return resources.filter((resource) => {
+    const problem = resourceProblem(resource, skillDir)
+    if (problem) onDiagnostic?.({ severity: "warning", file: filePath, path: "resources", message: problem })
+    return !problem
+  })
+}
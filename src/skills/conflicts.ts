@@ -0,0 +1,110 @@
+import type { ParsedSkill, SkillSettings, ConflictResolution } from "../types.js"
+import { skillReferenceName } from "./references.js"
+
+/** A skill's priority: its `skillSettings` entry, then its frontmatter, then 0. */
+export function getSkillPriority(skill: ParsedSkill, skillSettings: Record<string, SkillSettings> = {}): number {
+  return skillSettings[skill.name]?.priority ?? skill.priority ?? 0
+}
+
+/**
+ * Whether two skills may not be loaded together: either lists the other
+ * under `conflicts`, or a group in the config's conflict table names both.
+ */
+export function skillsConflict(a: ParsedSkill, b: ParsedSkill, conflictTable: string[][] = []): boolean {
+  if (a.name === b.name) return false
+  if (a.conflicts?.includes(b.name) || b.conflicts?.includes(a.name)) return true
+  return conflictTable.some((group) => group.includes(a.name) && group.includes(b.name))
+}
+
+export interface ConflictOptions {
+  conflictTable?: string[][]
+  resolution?: ConflictResolution
+  skillSettings?: Record<string, SkillSettings>
+}
+
+export interface ConflictDecision {
+  /** Whether the candidate may be loaded. */
+  accept: boolean
+  /** Loaded skills the candidate displaces; they must be unloaded. */
+  replaces: ParsedSkill[]
+  /** Why the candidate was rejected, or what it replaced. */
+  reason?: string
+}
+
+function quoteNames(skills: ParsedSkill[]): string {
+  return skills.map((s) => `"${s.name}"`).join(", ")
+}
+
+/**
+ * Decides whether `candidate` may join the `loaded` skills. Under
+ * `keepFirst` a conflicting candidate is rejected; under `replace` it
+ * displaces what it conflicts with; under `priority` it displaces them only
+ * when its priority is higher than each of theirs.
+ */
+export function resolveConflict(
+  candidate: ParsedSkill,
+  loaded: ParsedSkill[],
+  { conflictTable = [], resolution = "keepFirst", skillSettings = {} }: ConflictOptions
+): ConflictDecision {
+  const conflicting = loaded.filter((skill) => skillsConflict(candidate, skill, conflictTable))
+  if (conflicting.length === 0) return { accept: true, replaces: [] }
+
+  if (resolution === "replace") {
+    return { accept: true, replaces: conflicting, reason: `replaces conflicting ${quoteNames(conflicting)}` }
+  }
+
+  if (resolution === "priority") {
+    const priority = getSkillPriority(candidate, skillSettings)
+    const stronger = conflicting.filter((skill) => getSkillPriority(skill, skillSettings) >= priority)
+    if (stronger.length === 0) {
+      return {
+        accept: true,
+        replaces: conflicting,
+        reason: `has a higher priority (${priority}) than conflicting ${quoteNames(conflicting)}`,
+      }
+    }
+    return {
+      accept: false,
+      replaces: [],
+      reason: `conflicts with ${quoteNames(stronger)}, which ${stronger.length === 1 ? "has" : "have"} the same or a higher priority`,
+    }
+  }
+
+  return { accept: false, replaces: [], reason: `conflicts with already loaded ${quoteNames(conflicting)}` }
+}
+
+/**
+ * Applies `resolveConflict` to a list of skills in order, as if each were
+ * loaded after the ones before it; a skill requiring a rejected one is
+ * rejected too. Returns the skills left standing and the ones rejected or
+ * displaced, with the reason.
+ */
+export function resolveConflicts(
+  skills: ParsedSkill[],
+  options: ConflictOptions
+): { skills: ParsedSkill[]; rejected: Array<{ skill: ParsedSkill; reason: string }> } {
+  let accepted: ParsedSkill[] = []
+  const rejected: Array<{ skill: ParsedSkill; reason: string }> = []
+
+  for (const skill of skills) {
+    const rejectedDependency = skill.requires?.find((name) =>
+      rejected.some((r) => r.skill.name === skillReferenceName(name))
+    )
+    if (rejectedDependency) {
+      rejected.push({ skill, reason: `requires "${rejectedDependency}", which was rejected` })
+      continue
+    }
+
+    const decision = resolveConflict(skill, accepted, options)
+    if (!decision.accept) {
+      rejected.push({ skill, reason: decision.reason ?? "" })
+      continue
+    }
+    for (const replaced of decision.replaces) {
+      rejected.push({ skill: replaced, reason: `replaced by "${skill.name}"` })
+    }
+    accepted = [...accepted.filter((s) => !decision.replaces.includes(s)), skill]
+  }
+
+  return { skills: accepted, rejected }
+}
@@ -0,0 +1,170 @@
+import type { ConfigDiagnostic, SkillResource, SkillTriggers } from "../types.js"
+import { parseYaml, YamlError } from "../yaml.js"
+
+/** Matches a leading `---` fenced block; the first YAML line is line 2 of the file. */
+const FRONTMATTER_PATTERN = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/
+
+export interface SkillFrontmatter {
+  name?: string
+  description?: string
+  summary?: string
+  condensed?: string
+  license?: string
+  allowedTools?: string[]
+  requires?: string[]
+  conflicts?: string[]
+  priority?: number
+  resources?: SkillResource[]
+  fileTypes?: string[]
+  paths?: string[]
+  keywords?: string[]
+  agents?: string[]
+  /** Keys without a dedicated field, as parsed. */
+  extra: Record<string, unknown>
+}
+
+export interface ParsedFrontmatter {
+  frontmatter: SkillFrontmatter
+  /** The file content after the frontmatter block. */
+  body: string
+  diagnostics: ConfigDiagnostic[]
+}
+
+type FieldReader = (value: unknown) => unknown
+
+const readString: FieldReader = (value) => (typeof value === "string" ? value.trim() : undefined)
+
+const readNumber: FieldReader = (value) => (typeof value === "number" && Number.isFinite(value) ? value : undefined)
+
+/** A list of strings, or a single string split on `separator`. */
+const stringList =
+  (separator?: RegExp): FieldReader =>
+  (value) => {
+    if (typeof value === "string") {
+      const items = separator ? value.split(separator) : [value]
+      return items.map((item) => item.trim()).filter(Boolean)
+    }
+    if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+      return value.map((item) => item.trim()).filter(Boolean)
+    }
+    return undefined
+  }
+
+/** File types match the config's extension keys, so `ts` is read as `.ts`. */
+const readFileTypes: FieldReader = (value) =>
+  (stringList(/,/)(value) as string[] | undefined)?.map((ext) => (ext.startsWith(".") ? ext : `.${ext}`))
+
+/** Resources are paths, or `{ path, description }` mappings. */
+const readResources: FieldReader = (value) => {
+  if (!Array.isArray(value)) return undefined
+  const resources: SkillResource[] = []
+  for (const item of value) {
+    if (typeof item === "string") {
+      resources.push({ path: item.trim() })
+    } else if (isResourceMapping(item)) {
+      const description = typeof item.description === "string" ? item.description.trim() : undefined
+      resources.push({ path: item.path.trim(), ...(description && { description }) })
+    } else {
+      return undefined
+    }
+  }
+  return resources
+}
+
+function isResourceMapping(value: unknown): value is { path: string; description?: unknown } {
+  return typeof value === "object" && value !== null && typeof (value as { path?: unknown }).path === "string"
+}
+
+/** Known frontmatter keys, the field each is stored in, and how to read it. */
+const KNOWN_FIELDS: Record<string, { field: Exclude<keyof SkillFrontmatter, "extra">; read: FieldReader; expected: string }> = {
+  name: { field: "name", read: readString, expected: "a string" },
+  description: { field: "description", read: readString, expected: "a string" },
+  summary: { field: "summary", read: readString, expected: "a string" },
+  condensed: { field: "condensed", read: readString, expected: "a string" },
+  license: { field: "license", read: readString, expected: "a string" },
+  "allowed-tools": { field: "allowedTools", read: stringList(/[\s,]+/), expected: "a list of strings" },
+  requires: { field: "requires", read: stringList(/,/), expected: "a list of skill names" },
+  conflicts: { field: "conflicts", read: stringList(/,/), expected: "a list of skill names" },
+  priority: { field: "priority", read: readNumber, expected: "a number" },
+  resources: { field: "resources", read: readResources, expected: "a list of paths or { path, description } mappings" },
+  fileTypes: { field: "fileTypes", read: readFileTypes, expected: "a list of file extensions" },
+  // Globs may contain commas (`src/{a,b}/**`), so a single string is one pattern.
+  paths: { field: "paths", read: stringList(), expected: "a list of glob patterns" },
+  keywords: { field: "keywords", read: stringList(/,/), expected: "a list of strings" },
+  agents: { field: "agents", read: stringList(/,/), expected: "a list of agent names" },
+}
+
+/** The trigger keys of a frontmatter, or undefined when it declares none. */
+export function frontmatterTriggers(frontmatter: SkillFrontmatter): SkillTriggers | undefined {
+  const { fileTypes, paths, keywords, agents } = frontmatter
+  const triggers: SkillTriggers = {
+    ...(fileTypes?.length && { fileTypes }),
+    ...(paths?.length && { paths }),
+    ...(keywords?.length && { keywords }),
+    ...(agents?.length && { agents }),
+  }
+  return Object.keys(triggers).length > 0 ? triggers : undefined
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "a list"
+  return typeof value === "object" ? "a mapping" : `${typeof value} ${JSON.stringify(value)}`
+}
+
+/**
+ * Splits a SKILL.md file into its YAML frontmatter and body. Known keys are
+ * read into typed fields and everything else is kept in `extra`. Problems are
+ * reported against `filePath`: unparseable YAML as an error (the frontmatter
+ * is then ignored), a known key with the wrong type as a warning.
+ */
+export function parseSkillFrontmatter(content: string, filePath: string): ParsedFrontmatter {
+  const match = FRONTMATTER_PATTERN.exec(content)
+  if (!match) return { frontmatter: { extra: {} }, body: content, diagnostics: [] }
+
+  const body = content.slice(match[0].length)
+  const error = (message: string, line?: number): ParsedFrontmatter => ({
+    frontmatter: { extra: {} },
+    body,
+    diagnostics: [{ severity: "error", file: filePath, path: "", line, message: `Invalid frontmatter: ${message}` }],
+  })
+
+  let parsed: unknown
+  try {
+    parsed = parseYaml(match[1] ?? "")
+  } catch (e) {
+    if (e instanceof YamlError) return error(e.reason, e.line + 1)
+    throw e
+  }
+
+  if (parsed === null || parsed === undefined) return { frontmatter: { extra: {} }, body, diagnostics: [] }
+  if (typeof parsed !== "object" || Array.isArray(parsed)) {
+    return error(`Expected a mapping of keys to values, got ${describeValue(parsed)}`, 2)
+  }
+
+  const frontmatter: SkillFrontmatter = { extra: {} }
+  const diagnostics: ConfigDiagnostic[] = []
+
+  for (const [key, value] of Object.entries(parsed)) {
+    const known = KNOWN_FIELDS[key]
+    if (!known) {
+      frontmatter.extra[key] = value
+      continue
+    }
+
+    if (value === null) continue
+    const read = known.read(value)
+    if (read === undefined) {
+      diagnostics.push({
+        severity: "warning",
+        file: filePath,
+        path: key,
+        message: `Expected ${known.expected}, got ${describeValue(value)}`,
+      })
+    } else {
+      Object.assign(frontmatter, { [known.field]: read })
+    }
+  }
+
+  return { frontmatter, body, diagnostics }
+}
@@ -0,0 +1,105 @@
+import type { ParsedSkill } from "../types.js"
+import { countTokens } from "../tokenizers.js"
+
+const HEADING_PATTERN = /^(#{2,6})[ \t]+(.+?)[ \t]*#*[ \t]*$/
+const FENCE_PATTERN = /^\s*(```|~~~)/
+
+interface HeadingSection {
+  slug: string
+  /** First line of the section (its heading) and the line after its last. */
+  start: number
+  end: number
+}
+
+interface SkillOutline {
+  lines: string[]
+  /** Lines before the first section: frontmatter, title and introduction. */
+  preambleEnd: number
+  sections: HeadingSection[]
+}
+
+/** The anchor GitHub gives a heading: lowercase, punctuation dropped, spaces as hyphens. */
+export function slugifyHeading(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[`*_~[\]()]/g, "")
+    .replace(/[^\p{L}\p{N}\s-]/gu, "")
+    .trim()
+    .replace(/\s/g, "-")
+}
+
+/**
+ * Splits content at its `##` to `######` headings, ignoring code blocks. A
+ * section runs to the next heading of the same or a higher level, so it
+ * holds its subsections; repeated headings get `-1`, `-2` suffixes.
+ */
+function outlineSkill(content: string): SkillOutline {
+  const lines = content.split("\n")
+  const headings: Array<{ slug: string; level: number; line: number }> = []
+  const seen = new Map<string, number>()
+  let inFence = false
+
+  lines.forEach((line, index) => {
+    if (FENCE_PATTERN.test(line)) inFence = !inFence
+    const match = !inFence && HEADING_PATTERN.exec(line)
+    if (!match) return
+
+    const base = slugifyHeading(match[2]!)
+    const count = seen.get(base) ?? 0
+    seen.set(base, count + 1)
+    headings.push({ slug: count ? `${base}-${count}` : base, level: match[1]!.length, line: index })
+  })
+
+  const sections = headings.map(({ slug, level, line }, index) => {
+    const next = headings.slice(index + 1).find((heading) => heading.level <= level)
+    return { slug, start: line, end: next?.line ?? lines.length }
+  })
+  return { lines, preambleEnd: headings[0]?.line ?? lines.length, sections }
+}
+
+function sectionLines(outline: SkillOutline, slugs: Iterable<string>, preamble: boolean): Set<number> {
+  const selected = new Set<number>()
+  if (preamble) {
+    for (let line = 0; line < outline.preambleEnd; line++) selected.add(line)
+  }
+  for (const slug of slugs) {
+    const section = outline.sections.find((s) => s.slug === slug)
+    for (let line = section?.start ?? 0; line < (section?.end ?? 0); line++) selected.add(line)
+  }
+  return selected
+}
+
+/** The slugs of a skill's sections, in document order. */
+export function listHeadingSections(content: string): string[] {
+  return outlineSkill(content).sections.map((section) => section.slug)
+}
+
+/** Whether the sections, with the preamble, hold every line of the content. */
+export function coversAllSections(content: string, slugs: Iterable<string>): boolean {
+  const outline = outlineSkill(content)
+  return sectionLines(outline, slugs, true).size === outline.lines.length
+}
+
+/**
+ * The skill trimmed to the preamble and the named sections, in document
+ * order. With `loaded`, the sections a session already has, only the text
+ * they lack is kept (and no preamble), so merging never repeats a line.
+ * The result is counted with `model`'s tokenizer. Returns null when nothing
+ * is left.
+ */
+export function selectHeadingSections(
+  skill: ParsedSkill,
+  slugs: string[],
+  loaded?: Iterable<string>,
+  model?: string
+): ParsedSkill | null {
+  const outline = outlineSkill(skill.content)
+  const selected = sectionLines(outline, slugs, !loaded)
+  if (loaded) {
+    for (const line of sectionLines(outline, loaded, true)) selected.delete(line)
+  }
+  if (selected.size === 0) return null
+
+  const content = outline.lines.filter((_line, index) => selected.has(index)).join("\n")
+  return { ...skill, content, tokenCount: countTokens(content, model), sections: slugs }
+}
@@ -1,67 +1,261 @@
-import { existsSync, readFileSync } from "node:fs"
-import { join } from "node:path"
+import { existsSync, readFileSync, readdirSync } from "node:fs"
+import { dirname, join, resolve } from "node:path"
 import { homedir } from "node:os"
-import type { ParsedSkill, SkillSettings, MinificationLevel } from "../types.js"
-import { estimateTokens, minifyContent, minifyContentAggressive } from "../utils.js"
+import type {
+  BudgetStrategy,
+  ParsedSkill,
+  SkillSettings,
+  MinificationLevel,
+  DiagnosticReporter,
+  ConfigDiagnostic,
+  PreloadSkillsConfig,
+  SkillSource,
+  SectionContext,
+} from "../types.js"
+import { parseSkillFrontmatter, frontmatterTriggers } from "./frontmatter.js"
+import { expandIncludes, checkSkillResources } from "./bundle.js"
+import { parseSkillReference, skillReferenceName } from "./references.js"
+import { findSkillPackages, getPackageSkillDirs } from "./packages.js"
+import { skillStore } from "./store.js"
+import { expandTemplateVariables, readTemplateValues, templateSourceFiles, type TemplateValues } from "./templates.js"
+import { checkSections, selectSections } from "./sections.js"
+import { SKILL_TIERS, atTier } from "./tiers.js"
+import { droppedDependency, packByValue, packInOrder, rankForBudget } from "./budget.js"
+import { findPackageDir } from "../config/extends.js"
+import { minifyContent, minifyContentAggressive } from "../utils.js"
+import { countTokens } from "../tokenizers.js"
 
 const SKILL_FILENAME = "SKILL.md"
 
-const SKILL_SEARCH_PATHS = [
-  (dir: string) => join(dir, ".opencode", "skills"),
-  (dir: string) => join(dir, ".claude", "skills"),
+const PROJECT_SKILL_PATHS = [join(".opencode", "skills"), join(".claude", "skills")]
+
+const GLOBAL_SKILL_PATHS = [
   () => join(homedir(), ".config", "opencode", "skills"),
   () => join(homedir(), ".claude", "skills"),
 ]
 
-function findSkillFile(skillName: string, projectDir: string): string | null {
-  for (const getPath of SKILL_SEARCH_PATHS) {
-    const skillDir = getPath(projectDir)
-    const skillPath = join(skillDir, skillName, SKILL_FILENAME)
+/** The config options that decide where skills are looked up and how they are expanded. */
+export type SkillLoadOptions = Pick<
+  PreloadSkillsConfig,
+  "skillPaths" | "globalSkills" | "packageSkills" | "templateEnv"
+>
 
-    if (existsSync(skillPath)) {
-      return skillPath
-    }
+/** The layer and package a skill was found in, recorded on the parsed skill. */
+export type SkillOrigin = Pick<ParsedSkill, "source" | "packageName">
+
+export interface SkillFileOptions extends SkillOrigin {
+  /** The project whose facts fill template variables; without it they are left as written. */
+  projectDir?: string
+  templateEnv?: string[]
+}
+
+interface SkillLocation extends SkillOrigin {
+  dir: string
+  source: SkillSource
+}
+
+/**
+ * Resolves a `skillPaths` entry: `~` is the home directory and makes the
+ * entry a user location, relative paths are from the project.
+ */
+function resolveSkillLocation(path: string, projectDir: string): SkillLocation {
+  if (path === "~" || path.startsWith("~/") || path.startsWith("~\\")) {
+    return { dir: join(homedir(), path.slice(1)), source: "user" }
   }
-  return null
+  return { dir: resolve(projectDir, path), source: "project" }
+}
+
+/** A store key for lookups made with these search options. */
+function searchKey(projectDir: string, options: SkillLoadOptions = {}): string {
+  return JSON.stringify([projectDir, options.skillPaths ?? [], options.globalSkills, options.packageSkills])
+}
+
+function getSkillLocations(projectDir: string, options: SkillLoadOptions = {}): SkillLocation[] {
+  // Package skill directories change as dependencies are added or installed.
+  const dependsOn = options.packageSkills ? [join(projectDir, "package.json"), join(projectDir, "node_modules")] : []
+  return skillStore.lookup(
+    `locations:${searchKey(projectDir, options)}`,
+    () => findSkillLocations(projectDir, options),
+    { dependsOn }
+  )
+}
+
+function findSkillLocations(projectDir: string, options: SkillLoadOptions): SkillLocation[] {
+  const locations: SkillLocation[] = [
+    ...(options.skillPaths ?? []).map((path) => resolveSkillLocation(path, projectDir)),
+    ...PROJECT_SKILL_PATHS.map((path) => ({ dir: join(projectDir, path), source: "project" as const })),
+    ...(options.packageSkills
+      ? findSkillPackages(projectDir).flatMap(({ name, skillDirs }) =>
+          skillDirs.map((dir) => ({ dir, source: "package" as const, packageName: name }))
+        )
+      : []),
+    ...(options.globalSkills === false
+      ? []
+      : GLOBAL_SKILL_PATHS.map((getPath) => ({ dir: getPath(), source: "user" as const }))),
+  ]
+  const seen = new Set<string>()
+  return locations.filter(({ dir }) => !seen.has(dir) && seen.add(dir))
+}
+
+/**
+ * The directories searched for skills, highest precedence first: the
+ * configured `skillPaths` in order, then the built-in project locations,
+ * then the skill directories of the project's dependencies when
+ * `packageSkills` is true, then the global ones unless `globalSkills` is
+ * false. A built-in location listed in `skillPaths` takes that position
+ * instead.
+ */
+export function getSkillSearchPaths(projectDir: string, options?: SkillLoadOptions): string[] {
+  return getSkillLocations(projectDir, options).map(({ dir }) => dir)
+}
+
+/**
+ * The directories whose changes can change what a reference resolves to: the
+ * skill's directory in each search path it may be found in, which appears
+ * when the skill is created and changes when its SKILL.md is added or
+ * removed. Installed packages change as a whole.
+ */
+function skillFileDependencies(reference: string, projectDir: string, options?: SkillLoadOptions): string[] {
+  const parsed = parseSkillReference(reference)
+  if (!parsed) return []
+  if (parsed.packageName) {
+    return [join(projectDir, "node_modules"), join(projectDir, "node_modules", parsed.packageName)]
+  }
+  return getSkillLocations(projectDir, options)
+    .filter(({ source }) => !parsed.source || source === parsed.source)
+    .map(({ dir }) => join(dir, parsed.name))
+}
+
+/**
+ * Finds the SKILL.md a reference points at: the first match in the search
+ * paths, only those of one layer for `project:` and `user:`, or the
+ * package's skill directories for `pkg:`, whether or not the project
+ * depends on it. Hits and misses are both remembered until a skill
+ * directory they depend on changes, so a skill created later is found by
+ * the next lookup.
+ */
+function findSkillFile(
+  reference: string,
+  projectDir: string,
+  options?: SkillLoadOptions
+): FoundSkill | null {
+  return skillStore.lookup(
+    `skill:${reference}:${searchKey(projectDir, options)}`,
+    () => searchSkillFile(reference, projectDir, options),
+    { dependsOn: skillFileDependencies(reference, projectDir, options) }
+  )
 }
 
-interface FrontmatterData {
-  name?: string
-  description?: string
-  summary?: string
+interface FoundSkill {
+  filePath: string
+  /** The skill directory name. */
+  name: string
+  origin: SkillOrigin
 }
 
-function parseFrontmatter(content: string): FrontmatterData {
-  const frontmatterMatch = content.match(/^---\s*\n([\s\S]*?)\n---/)
-  if (!frontmatterMatch?.[1]) {
-    return {}
+function searchSkillFile(reference: string, projectDir: string, options?: SkillLoadOptions): FoundSkill | null {
+  const parsed = parseSkillReference(reference)
+  if (!parsed) return null
+  const { name, source, packageName } = parsed
+
+  if (packageName) {
+    const packageDir = findPackageDir(packageName, projectDir)
+    const dirs = packageDir ? getPackageSkillDirs(packageDir) : []
+    const filePath = dirs.map((dir) => join(dir, name, SKILL_FILENAME)).find((path) => existsSync(path))
+    return filePath ? { filePath, name, origin: { source: "package", packageName } } : null
   }
 
-  const frontmatter = frontmatterMatch[1]
-  const result: FrontmatterData = {}
+  for (const { dir, ...origin } of getSkillLocations(projectDir, options)) {
+    if (source && origin.source !== source) continue
+    const filePath = join(dir, name, SKILL_FILENAME)
+    if (existsSync(filePath)) {
+      return { filePath, name, origin }
+    }
+  }
+  return null
+}
 
-  const nameMatch = frontmatter.match(/^name:\s*(.+)$/m)
-  if (nameMatch?.[1]) {
-    result.name = nameMatch[1].trim()
+/** The names of the skills in a search path: its subdirectories with a SKILL.md. */
+function listSkillNames(dir: string): string[] {
+  let entries
+  try {
+    entries = readdirSync(dir, { withFileTypes: true })
+  } catch {
+    return []
   }
+  return entries
+    .filter((entry) => entry.isDirectory() && existsSync(join(dir, entry.name, SKILL_FILENAME)))
+    .map((entry) => entry.name)
+}
+
+/**
+ * The skills shipped by the project's dependencies, by name, to load at
+ * startup. Empty unless `packageSkills` is true.
+ */
+export function findPackageSkills(projectDir: string, options?: SkillLoadOptions): string[] {
+  if (!options?.packageSkills) return []
+  const names = findSkillPackages(projectDir).flatMap(({ skillDirs }) => skillDirs.flatMap(listSkillNames))
+  return [...new Set(names)]
+}
 
-  const descMatch = frontmatter.match(/^description:\s*(.+)$/m)
-  if (descMatch?.[1]) {
-    result.description = descMatch[1].trim()
+/** A skill name found in more than one search path, and the copies its first match hides. */
+export interface ShadowedSkill {
+  name: string
+  filePath: string
+  shadowed: string[]
+}
+
+/** Lists skill names found in more than one search path, with every copy's path. */
+export function findShadowedSkills(projectDir: string, options?: SkillLoadOptions): ShadowedSkill[] {
+  const copies = new Map<string, string[]>()
+
+  for (const { dir } of getSkillLocations(projectDir, options)) {
+    for (const name of listSkillNames(dir)) {
+      copies.set(name, [...(copies.get(name) ?? []), join(dir, name, SKILL_FILENAME)])
+    }
   }
 
-  const summaryMatch = frontmatter.match(/^summary:\s*(.+)$/m)
-  if (summaryMatch?.[1]) {
-    result.summary = summaryMatch[1].trim()
+  return [...copies]
+    .filter(([, paths]) => paths.length > 1)
+    .map(([name, [filePath, ...shadowed]]) => ({ name, filePath: filePath!, shadowed }))
+}
+
+/**
+ * Loads every skill in the search paths, keyed by the name it is looked up
+ * by (its directory). As with `loadSkill`, a skill in an earlier search path
+ * shadows one of the same name in a later path.
+ */
+export function discoverSkills(
+  projectDir: string,
+  onDiagnostic?: DiagnosticReporter,
+  options?: SkillLoadOptions
+): Map<string, ParsedSkill> {
+  const skills = new Map<string, ParsedSkill>()
+
+  for (const { dir, ...origin } of getSkillLocations(projectDir, options)) {
+    for (const name of listSkillNames(dir)) {
+      if (skills.has(name)) continue
+      const skill = loadSkillFile(join(dir, name, SKILL_FILENAME), name, onDiagnostic, {
+        ...origin,
+        projectDir,
+        templateEnv: options?.templateEnv,
+      })
+      if (skill) skills.set(name, skill)
+    }
   }
 
-  return result
+  return skills
 }
 
-function extractAutoSummary(content: string, maxLength: number = 500): string {
-  const withoutFrontmatter = content.replace(/^---\s*\n[\s\S]*?\n---\s*\n?/, "")
-  
-  const firstSection = withoutFrontmatter.split(/\n##\s/)[0] ?? ""
+/** Project facts for template variables, read again when the package.json or git HEAD changes. */
+function getTemplateValues(projectDir: string): TemplateValues {
+  return skillStore.lookup(`template:${projectDir}`, () => readTemplateValues(projectDir), {
+    dependsOn: templateSourceFiles(projectDir),
+  })
+}
+
+function extractAutoSummary(body: string, maxLength: number = 500): string {
+  const firstSection = body.split(/\n##\s/)[0] ?? ""
   const cleaned = firstSection
     .replace(/^#\s+.+\n?/, "")
     .replace(/\n+/g, " ")
@@ -71,51 +265,208 @@ function extractAutoSummary(content: string, maxLength: number = 500): string {
   return cleaned.slice(0, maxLength).replace(/\s+\S*$/, "") + "..."
 }
 
-export function loadSkill(skillName: string, projectDir: string): ParsedSkill | null {
-  const filePath = findSkillFile(skillName, projectDir)
-
-  if (!filePath) {
+/**
+ * Loads a skill by name, or by a namespaced reference such as
+ * `project:react`, `user:react` or `pkg:@acme/skills/react`.
+ */
+export function loadSkill(
+  skillName: string,
+  projectDir: string,
+  onDiagnostic?: DiagnosticReporter,
+  options?: SkillLoadOptions
+): ParsedSkill | null {
+  const found = findSkillFile(skillName, projectDir, options)
+
+  if (!found) {
     return null
   }
 
+  return loadSkillFile(found.filePath, found.name, onDiagnostic, {
+    ...found.origin,
+    projectDir,
+    templateEnv: options?.templateEnv,
+  })
+}
+
+/**
+ * Reads a SKILL.md file. Malformed frontmatter is reported through
+ * `onDiagnostic` and the skill still loads, falling back to defaults for
+ * anything the frontmatter could not provide. Template variables in the
+ * body are filled in from `options.projectDir`. Unchanged files are served
+ * from the skill store, and their problems reported again; a change to the
+ * project's package.json or git HEAD counts as a change.
+ */
+export function loadSkillFile(
+  filePath: string,
+  skillName: string,
+  onDiagnostic?: DiagnosticReporter,
+  options: SkillFileOptions = {}
+): ParsedSkill | null {
+  const { source, packageName, projectDir, templateEnv } = options
+  const variant = JSON.stringify([skillName, source, packageName, projectDir, templateEnv])
+  const result = skillStore.readSkill(filePath, variant, () => {
+    const diagnostics: ConfigDiagnostic[] = []
+    const skill = parseSkillFile(filePath, skillName, options, (diagnostic) => diagnostics.push(diagnostic))
+    return skill && { skill, diagnostics, dependencies: projectDir ? templateSourceFiles(projectDir) : [] }
+  })
+
+  result?.diagnostics.forEach((diagnostic) => onDiagnostic?.(diagnostic))
+  return result?.skill ?? null
+}
+
+function parseSkillFile(
+  filePath: string,
+  skillName: string,
+  options: SkillFileOptions,
+  onDiagnostic: DiagnosticReporter
+): ParsedSkill | null {
+  let content: string
   try {
-    const content = readFileSync(filePath, "utf-8")
-    const { name, description, summary } = parseFrontmatter(content)
-
-    return {
-      name: name ?? skillName,
-      description: description ?? "",
-      summary: summary ?? extractAutoSummary(content),
-      content,
-      filePath,
-      tokenCount: estimateTokens(content),
-    }
+    content = readFileSync(filePath, "utf-8")
   } catch {
     return null
   }
+
+  const { frontmatter, body: rawBody, diagnostics } = parseSkillFrontmatter(content, filePath)
+  diagnostics.forEach((diagnostic) => onDiagnostic(diagnostic))
+  const { name, description, summary, condensed, license, allowedTools, requires, conflicts, priority, extra } =
+    frontmatter
+  const triggers = frontmatterTriggers(frontmatter)
+
+  const skillDir = dirname(filePath)
+  const { content: included, includedFiles } = expandIncludes(rawBody, skillDir, filePath, onDiagnostic)
+  const body = options.projectDir
+    ? expandTemplateVariables(
+        included,
+        getTemplateValues(options.projectDir),
+        { allowedEnv: options.templateEnv ?? [] },
+        filePath,
+        onDiagnostic
+      )
+    : included
+  content = content.slice(0, content.length - rawBody.length) + body
+  checkSections(content, filePath, onDiagnostic)
+  const resources = frontmatter.resources && checkSkillResources(frontmatter.resources, skillDir, filePath, onDiagnostic)
+
+  return {
+    name: name ?? skillName,
+    description: description ?? "",
+    summary: summary ?? extractAutoSummary(body),
+    ...(condensed !== undefined && { condensed }),
+    ...(options.source && { source: options.source }),
+    ...(options.packageName && { packageName: options.packageName }),
+    ...(license !== undefined && { license }),
+    ...(allowedTools !== undefined && { allowedTools }),
+    ...(requires !== undefined && { requires }),
+    ...(conflicts !== undefined && { conflicts }),
+    ...(priority !== undefined && { priority }),
+    ...(triggers && { triggers }),
+    ...(resources?.length && { resources }),
+    ...(includedFiles.length > 0 && { includedFiles }),
+    extra,
+    content,
+    filePath,
+    // No model is known yet; sessions count the skill again with their own.
+    tokenCount: countTokens(content),
+  }
 }
 
-export function loadSkills(skillNames: string[], projectDir: string): ParsedSkill[] {
+/**
+ * Loads skills together with everything they `requires`, transitively,
+ * each dependency before the skills that need it. A skill whose dependency
+ * cannot be loaded is left out and reported. A dependency cycle is reported
+ * and broken at the edge that closes it.
+ */
+export function loadSkills(
+  skillNames: string[],
+  projectDir: string,
+  onDiagnostic?: DiagnosticReporter,
+  options?: SkillLoadOptions
+): ParsedSkill[] {
   if (!Array.isArray(skillNames)) {
     return []
   }
 
   const skills: ParsedSkill[] = []
+  // Lookup name → loaded skill, or null when it or a dependency is unavailable.
+  const visited = new Map<string, ParsedSkill | null>()
 
-  for (const name of skillNames) {
-    const skill = loadSkill(name, projectDir)
-    if (skill) {
-      skills.push(skill)
+  const visit = (name: string, chain: string[]): boolean => {
+    const known = visited.get(name)
+    if (known !== undefined) return known !== null
+
+    const skill = loadSkill(name, projectDir, onDiagnostic, options)
+    if (!skill) {
+      visited.set(name, null)
+      return false
     }
+
+    const path = [...chain, name]
+    for (const dependency of skill.requires ?? []) {
+      if (path.includes(dependency)) {
+        onDiagnostic?.({
+          severity: "error",
+          file: skill.filePath,
+          path: "requires",
+          message: `Circular requires: ${[...path.slice(path.indexOf(dependency)), dependency].join(" → ")}`,
+        })
+        continue
+      }
+
+      if (!visit(dependency, path)) {
+        onDiagnostic?.({
+          severity: "warning",
+          file: skill.filePath,
+          path: "requires",
+          message: `Required skill "${dependency}" could not be loaded, so "${name}" is skipped`,
+        })
+        visited.set(name, null)
+        return false
+      }
+    }
+
+    visited.set(name, skill)
+    // `react` and `project:react` can name the same skill; a session holds one skill per name.
+    if (!skills.some((loaded) => loaded.name === skill.name)) skills.push(skill)
+    return true
+  }
+
+  for (const name of skillNames) {
+    visit(name, [])
   }
 
   return skills
 }
 
+/**
+ * Orders skills so each comes after the skills it requires that are also in
+ * the list, keeping the given order otherwise. Cycles are broken where found.
+ */
+export function orderSkillsByDependencies(skills: ParsedSkill[]): ParsedSkill[] {
+  const byName = new Map(skills.map((skill) => [skill.name, skill]))
+  const ordered: ParsedSkill[] = []
+  const seen = new Set<string>()
+
+  const visit = (skill: ParsedSkill) => {
+    if (seen.has(skill.name)) return
+    seen.add(skill.name)
+    for (const dependency of skill.requires ?? []) {
+      const required = byName.get(skillReferenceName(dependency))
+      if (required) visit(required)
+    }
+    ordered.push(skill)
+  }
+
+  skills.forEach(visit)
+  return ordered
+}
+
 export interface FormatOptions {
   useSummaries?: boolean
   useMinification?: boolean | MinificationLevel
   skillSettings?: Record<string, SkillSettings>
+  /** Keep only the conditional sections that apply to this session; without it skills are kept whole. */
+  sections?: SectionContext
 }
 
 function applyMinification(content: string, level: boolean | MinificationLevel): string {
@@ -124,6 +475,19 @@ function applyMinification(content: string, level: boolean | MinificationLevel):
   return minifyContent(content)
 }
 
+/** Lists a skill's bundled resources, which are read on demand rather than injected. */
+function formatResources(skill: ParsedSkill): string {
+  if (!skill.resources?.length) return ""
+
+  const lines = skill.resources.map((r) => `- \`${r.path}\`${r.description ? ` — ${r.description}` : ""}`)
+  return [
+    "",
+    "",
+    `Bundled resources in \`${dirname(skill.filePath)}\` (read them from that directory with the \`read\` tool when needed):`,
+    ...lines,
+  ].join("\n")
+}
+
 export function formatSkillsForInjection(
   skills: ParsedSkill[],
   options: boolean | FormatOptions = false
@@ -142,16 +506,21 @@ export function formatSkillsForInjection(
 
   const isAggressive = minificationLevel === "aggressive"
 
-  const parts = skills.map((skill) => {
+  const parts = orderSkillsByDependencies(skills).map((skill) => {
     const perSkillSetting = skillSettings[skill.name]?.useSummary
     const shouldUseSummary = perSkillSetting ?? globalUseSummaries
-    let content = shouldUseSummary && skill.summary ? skill.summary : skill.content
+    const selected = opts.sections ? selectSections(skill.content, opts.sections) : skill.content
+    // A skill stepped down to a tier already holds the text to inject.
+    let content = shouldUseSummary && skill.summary && !skill.tier ? skill.summary : selected
     content = applyMinification(content, minificationLevel)
     
     if (isAggressive) {
-      return `[SKILL:${skill.name}]|${content.replace(/\n/g, "|")}`
+      const resources = skill.resources
+        ? `|[RESOURCES]${skill.resources.map((r) => join(dirname(skill.filePath), r.path)).join(",")}`
+        : ""
+      return `[SKILL:${skill.name}]|${content.replace(/\n/g, "|")}${resources}`
     }
-    return `<preloaded-skill name="${skill.name}">\n${content}\n</preloaded-skill>`
+    return `<preloaded-skill name="${skill.name}">\n${content}${formatResources(skill)}\n</preloaded-skill>`
   })
 
   if (isAggressive) {
@@ -169,19 +538,85 @@ export function calculateTotalTokens(skills: ParsedSkill[]): number {
   return skills.reduce((sum, skill) => sum + skill.tokenCount, 0)
 }
 
+function exclusionReason(
+  skill: ParsedSkill,
+  missingDependency: string | undefined,
+  maxTokens: number,
+  strategy: BudgetStrategy
+): string {
+  if (missingDependency) return `requires "${missingDependency}", which was left out`
+  const size = `${skill.tokenCount} tokens${skill.tier ? ` even as ${skill.tier}` : ""}`
+  if (skill.tokenCount > maxTokens) return `${size} exceed the ${maxTokens} available`
+  if (strategy === "maximize-value") return `not in the most valuable set of skills that fits in ${maxTokens} tokens`
+  return `${size} do not fit alongside the skills ranked above it`
+}
+
+export interface BudgetOptions {
+  /** Counts lower tiers with this model's tokenizer. */
+  model?: string
+  strategy?: BudgetStrategy
+  /** Per-skill priorities, over the frontmatter's. */
+  skillSettings?: Record<string, SkillSettings>
+  /** Called with each skill left out and why. */
+  onExcluded?: (skill: ParsedSkill, reason: string) => void
+}
+
+/**
+ * Fits skills in `maxTokens`. The strategy ranks the skills; while they do
+ * not fit, the lowest ranked skill steps down through its tiers (see
+ * `SkillTier`) before the next one up is touched, so every skill is kept in
+ * some form before any is dropped.
+ * Skills that still do not fit are then dropped: the lowest ranked, or for
+ * `maximize-value` those outside the most valuable set that fits. A skill
+ * that requires a dropped one is dropped too rather than injected without
+ * it. Finally, each kept skill, the highest ranked first, moves up to the
+ * most detailed tier the room left allows. Returns the kept skills in their listed order.
+ */
 export function filterSkillsByTokenBudget(
   skills: ParsedSkill[],
-  maxTokens: number
+  maxTokens: number,
+  { model, strategy = "order", skillSettings, onExcluded }: BudgetOptions = {}
 ): ParsedSkill[] {
-  const result: ParsedSkill[] = []
-  let totalTokens = 0
+  const tiersOf = (skill: ParsedSkill) =>
+    SKILL_TIERS.map((tier) => atTier(skill, tier, model)).filter((view) => view !== null)
+  const smallest = (skill: ParsedSkill) => Math.min(...tiersOf(skill).map((view) => view.tokenCount))
+  const ranked = orderSkillsByDependencies(rankForBudget(skills, strategy, skillSettings, smallest))
+  const chosen = [...ranked]
+
+  for (let i = chosen.length - 1; i >= 0; i--) {
+    for (const lower of tiersOf(ranked[i]!).slice(1)) {
+      if (calculateTotalTokens(chosen) <= maxTokens) break
+      if (lower.tokenCount < chosen[i]!.tokenCount) chosen[i] = lower
+    }
+  }
 
-  for (const skill of skills) {
-    if (totalTokens + skill.tokenCount <= maxTokens) {
-      result.push(skill)
+  const packed =
+    strategy === "maximize-value" ? packByValue(chosen, maxTokens, skillSettings) : packInOrder(chosen, maxTokens)
+  const kept: number[] = []
+  const dropped = new Set<string>()
+  let totalTokens = 0
+  chosen.forEach((skill, i) => {
+    const missingDependency = droppedDependency(skill, dropped)
+    if (!missingDependency && packed.has(i)) {
+      kept.push(i)
       totalTokens += skill.tokenCount
+      return
+    }
+    dropped.add(skill.name)
+    onExcluded?.(ranked[i]!, exclusionReason(skill, missingDependency, maxTokens, strategy))
+  })
+
+  for (const i of kept) {
+    const current = chosen[i]!
+    const best = tiersOf(ranked[i]!).find(
+      (view) => view.tokenCount > current.tokenCount && totalTokens + view.tokenCount - current.tokenCount <= maxTokens
+    )
+    if (best) {
+      chosen[i] = best
+      totalTokens += best.tokenCount - current.tokenCount
     }
   }
 
-  return result
+  const byName = new Map(kept.map((i) => [chosen[i]!.name, chosen[i]!]))
+  return orderSkillsByDependencies(skills).flatMap((skill) => byName.get(skill.name) ?? [])
 }
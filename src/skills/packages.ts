@@ -0,0 +1,62 @@
+import { readFileSync, statSync } from "node:fs"
+import { join } from "node:path"
+import { findPackageDir } from "../config/extends.js"
+import { readProjectDependencies } from "../utils.js"
+import { resolveSkillPath } from "./bundle.js"
+
+/** The directory a package ships its skills in when its package.json names none. */
+const DEFAULT_PACKAGE_SKILLS_DIR = "skills"
+
+/** An installed dependency of the project that ships skills. */
+export interface SkillPackage {
+  name: string
+  /** Directories holding one `<skill>/SKILL.md` per skill. */
+  skillDirs: string[]
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory()
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The skill directories of an installed package: those named by
+ * `opencode.skills` in its package.json (a path or a list of paths inside
+ * the package), or else its `skills/` directory.
+ */
+export function getPackageSkillDirs(packageDir: string): string[] {
+  let declared: unknown
+  try {
+    declared = JSON.parse(readFileSync(join(packageDir, "package.json"), "utf-8")).opencode?.skills
+  } catch {
+    declared = undefined
+  }
+
+  const paths = typeof declared === "string" ? [declared] : Array.isArray(declared) ? declared : []
+  const dirs = paths
+    .filter((path): path is string => typeof path === "string")
+    .map((path) => resolveSkillPath(packageDir, path))
+    .filter((dir): dir is string => dir !== null && isDirectory(dir))
+  if (dirs.length > 0) return dirs
+
+  const defaultDir = join(packageDir, DEFAULT_PACKAGE_SKILLS_DIR)
+  return isDirectory(defaultDir) ? [defaultDir] : []
+}
+
+/**
+ * The project's dependencies, as listed in its package.json, that are
+ * installed and ship skills. Packages are looked up in `node_modules` from
+ * the project directory upwards, so hoisted workspace installs are found.
+ */
+export function findSkillPackages(projectDir: string): SkillPackage[] {
+  const packages: SkillPackage[] = []
+  for (const name of Object.keys(readProjectDependencies(projectDir))) {
+    const packageDir = findPackageDir(name, projectDir)
+    const skillDirs = packageDir ? getPackageSkillDirs(packageDir) : []
+    if (skillDirs.length > 0) packages.push({ name, skillDirs })
+  }
+  return packages
+}
@@ -0,0 +1,57 @@
+import type { SkillSource } from "../types.js"
+import { splitPackageSpecifier } from "../config/extends.js"
+
+/** A skill name, optionally pinned to the layer or package to look it up in. */
+export interface SkillReference {
+  /** The skill directory name. */
+  name: string
+  source?: SkillSource
+  /** The npm package the skill comes from, for `pkg:` references. */
+  packageName?: string
+  /** The heading slug after `#`, to load only that section of the skill. */
+  section?: string
+}
+
+const SOURCE_PREFIXES: Record<string, SkillSource> = {
+  project: "project",
+  user: "user",
+  pkg: "package",
+}
+
+/**
+ * Parses `project:react`, `user:react` or `pkg:@acme/skills/react`; a name
+ * without a known prefix is looked up in every location. Any of them may end
+ * in `#heading` to name one section. Returns null for a `pkg:` reference that
+ * names no skill.
+ */
+export function parseSkillReference(reference: string): SkillReference | null {
+  const { reference: base, section } = splitSectionReference(reference)
+  const parsed = parseBaseReference(base)
+  return parsed && section ? { ...parsed, section } : parsed
+}
+
+/** Splits `api-design#error-responses` into the skill reference and the section slug. */
+export function splitSectionReference(reference: string): { reference: string; section?: string } {
+  const hash = reference.indexOf("#")
+  if (hash < 0) return { reference }
+  const section = reference.slice(hash + 1).trim()
+  return { reference: reference.slice(0, hash), ...(section && { section }) }
+}
+
+function parseBaseReference(reference: string): SkillReference | null {
+  const colon = reference.indexOf(":")
+  const source = colon > 0 ? SOURCE_PREFIXES[reference.slice(0, colon)] : undefined
+  if (!source) return { name: reference }
+
+  const rest = reference.slice(colon + 1)
+  if (source !== "package") return rest ? { name: rest, source } : null
+
+  const { name: packageName, subpath } = splitPackageSpecifier(rest)
+  if (!subpath || subpath.includes("/")) return null
+  return { name: subpath, source, packageName }
+}
+
+/** The skill name a reference loads, for comparing `requires` entries with loaded skills. */
+export function skillReferenceName(reference: string): string {
+  return parseSkillReference(reference)?.name ?? reference
+}
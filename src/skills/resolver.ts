@@ -1,11 +1,19 @@
+import { basename, dirname } from "node:path"
 import type {
   PreloadSkillsConfig,
   ParsedSkill,
   SkillResolver,
   LoadSkillsResult,
   TriggerType,
+  DiagnosticReporter,
+  Logger,
+  SectionContext,
+  SessionState,
 } from "../types.js"
 import { loadSkills, filterSkillsByTokenBudget, calculateTotalTokens } from "./loader.js"
+import { withSections } from "./sections.js"
+import { listHeadingSections, selectHeadingSections, slugifyHeading } from "./headings.js"
+import { parseSkillReference, splitSectionReference } from "./references.js"
 import { matchGlobPattern } from "../utils.js"
 
 export function getSkillsForExtension(
@@ -56,12 +64,33 @@ export function resolveSkillGroups(
   return [...new Set(resolved)]
 }
 
+/**
+ * The heading sections requested of each skill, by skill directory name;
+ * null when some reference asks for the whole skill.
+ */
+function requestedSections(references: string[]): Map<string, string[] | null> {
+  const requested = new Map<string, string[] | null>()
+  for (const reference of references) {
+    const parsed = parseSkillReference(reference)
+    if (!parsed) continue
+    const current = requested.get(parsed.name)
+    if (!parsed.section) {
+      requested.set(parsed.name, null)
+    } else if (current !== null) {
+      requested.set(parsed.name, [...new Set([...(current ?? []), slugifyHeading(parsed.section)])])
+    }
+  }
+  return requested
+}
+
 export class SkillResolverImpl implements SkillResolver {
   private readonly skillCache = new Map<string, ParsedSkill>()
 
   constructor(
     private readonly config: PreloadSkillsConfig,
-    private readonly projectDir: string
+    private readonly projectDir: string,
+    private readonly onDiagnostic?: DiagnosticReporter,
+    private readonly log?: Logger
   ) {}
 
   getSkillsForExtension(ext: string): string[] {
@@ -79,27 +108,86 @@ export class SkillResolverImpl implements SkillResolver {
   loadWithBudget(
     skillNames: string[],
     currentTokens: number,
-    _sessionId: string,
-    _triggerType: TriggerType
+    sessionId: string,
+    triggerType: TriggerType,
+    loaded?: Pick<SessionState, "loadedSkills" | "loadedSections">,
+    sections?: SectionContext
   ): LoadSkillsResult {
     const resolved = this.resolveGroups(skillNames)
-    let skills = loadSkills(resolved, this.projectDir)
-
-    for (const skill of skills) {
+    const requested = requestedSections(resolved)
+    const references = [...new Set(resolved.map((reference) => splitSectionReference(reference).reference))]
+    const loadedSkills = loadSkills(references, this.projectDir, this.onDiagnostic, this.config)
+
+    // What each skill adds to the session: the whole skill, or the sections
+    // it asks for that the session lacks.
+    let skills: ParsedSkill[] = []
+    const views: ParsedSkill[] = []
+    const headingSections: Record<string, string[]> = {}
+    for (const skill of loadedSkills) {
       this.skillCache.set(skill.name, skill)
+
+      // Dependencies are not in `requested`; a skill loaded in part satisfies them.
+      const wanted = requested.get(basename(dirname(skill.filePath)))
+      const slugs = wanted ? this.knownSections(skill, wanted) : undefined
+      const loadedSections = loaded?.loadedSections?.get(skill.name)
+      if (slugs?.length === 0) continue
+      if (loaded?.loadedSkills.has(skill.name) && (!loadedSections || wanted === undefined)) continue
+
+      const view = loadedSections
+        ? selectHeadingSections(skill, slugs ?? listHeadingSections(skill.content), loadedSections, sections?.model)
+        : slugs
+          ? selectHeadingSections(skill, slugs, undefined, sections?.model)
+          : skill
+      if (!view) continue
+      if (view.sections) headingSections[skill.name] = view.sections
+      skills.push(skill)
+      views.push(view)
     }
 
+    // Budget on what the session will see, but return whole skills: they
+    // are cached and shared with sessions whose sections differ.
+    let counted = sections ? views.map((view) => withSections(view, sections)) : views
     if (this.config.maxTokens) {
       const remainingBudget = this.config.maxTokens - currentTokens
-      skills = filterSkillsByTokenBudget(skills, remainingBudget)
+      counted = filterSkillsByTokenBudget(counted, remainingBudget, {
+        model: sections?.model,
+        strategy: this.config.budgetStrategy,
+        skillSettings: this.config.skillSettings,
+        onExcluded: (skill, reason) =>
+          this.log?.("info", `Left out skill "${skill.name}" for the token budget: ${reason}`, {
+            sessionId,
+            triggerType,
+          }),
+      })
+      const kept = new Set(counted.map((skill) => skill.name))
+      skills = skills.filter((skill) => kept.has(skill.name))
     }
 
+    const partial = Object.entries(headingSections).filter(([name]) => skills.some((skill) => skill.name === name))
+    const tiers = counted.flatMap((skill) => (skill.tier ? [[skill.name, skill.tier] as const] : []))
     return {
       skills,
-      tokensUsed: calculateTotalTokens(skills),
+      tokensUsed: calculateTotalTokens(counted),
+      ...(partial.length > 0 && { sections: Object.fromEntries(partial) }),
+      ...(tiers.length > 0 && { tiers: Object.fromEntries(tiers) }),
     }
   }
 
+  /** The requested sections the skill has; the others are reported. */
+  private knownSections(skill: ParsedSkill, slugs: string[]): string[] {
+    const available = listHeadingSections(skill.content)
+    return slugs.filter((slug) => {
+      if (available.includes(slug)) return true
+      this.onDiagnostic?.({
+        severity: "warning",
+        file: skill.filePath,
+        path: "",
+        message: `No section "#${slug}" in skill "${skill.name}"; sections are ${available.join(", ") || "(none)"}`,
+      })
+      return false
+    })
+  }
+
   getCachedSkill(name: string): ParsedSkill | undefined {
     return this.skillCache.get(name)
   }
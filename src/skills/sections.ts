@@ -0,0 +1,122 @@
+import type { ConditionCheck, DiagnosticReporter, ParsedSkill, SectionContext } from "../types.js"
+import { checkCondition, matchGlobPattern } from "../utils.js"
+import { countTokens } from "../tokenizers.js"
+
+const IF_MARKER = /^\s*<!--\s*if\s+(.*?)\s*-->\s*$/
+const ENDIF_MARKER = /^\s*<!--\s*endif\s*-->\s*$/
+
+const CONDITION_CHECKS: ReadonlyArray<keyof ConditionCheck> = ["fileExists", "packageHasDependency", "envVar"]
+const SECTION_KEYS = ["agent", "fileType", "model", ...CONDITION_CHECKS]
+
+interface SectionCondition {
+  key: string
+  values: string[]
+}
+
+/** Parses `agent=plan,build fileType=.ts`; every condition must hold. */
+function parseConditions(text: string): { conditions: SectionCondition[]; problems: string[] } {
+  const conditions: SectionCondition[] = []
+  const problems: string[] = []
+
+  for (const term of text.split(/\s+/).filter(Boolean)) {
+    const separator = term.indexOf("=")
+    const key = separator > 0 ? term.slice(0, separator) : term
+    const values = term
+      .slice(separator + 1)
+      .split(",")
+      .filter(Boolean)
+    if (separator <= 0 || values.length === 0) {
+      problems.push(`Expected key=value, got "${term}"`)
+    } else if (!SECTION_KEYS.includes(key)) {
+      problems.push(`Unknown section condition "${key}"; expected one of ${SECTION_KEYS.join(", ")}`)
+    } else {
+      conditions.push({ key, values })
+    }
+  }
+  return { conditions, problems }
+}
+
+function normalizeFileType(ext: string): string {
+  return (ext.startsWith(".") ? ext : `.${ext}`).toLowerCase()
+}
+
+function conditionHolds({ key, values }: SectionCondition, context: SectionContext): boolean {
+  switch (key) {
+    case "agent":
+      return context.agent !== undefined && values.includes(context.agent)
+    case "fileType": {
+      const touched = new Set(context.fileTypes?.map(normalizeFileType))
+      return values.some((ext) => touched.has(normalizeFileType(ext)))
+    }
+    case "model": {
+      const model = context.model
+      if (!model) return false
+      const modelId = model.slice(model.indexOf("/") + 1)
+      return values.some((pattern) => matchGlobPattern(model, pattern) || matchGlobPattern(modelId, pattern))
+    }
+    default:
+      return values.some((value) => checkCondition({ [key]: value }, context.projectDir))
+  }
+}
+
+export function hasConditionalSections(content: string): boolean {
+  return content.split("\n").some((line) => IF_MARKER.test(line))
+}
+
+/**
+ * Keeps the parts of a skill whose `<!-- if ... -->` conditions hold for the
+ * session, dropping the markers. Sections nest; one left open runs to the
+ * end of the skill.
+ */
+export function selectSections(content: string, context: SectionContext): string {
+  if (!hasConditionalSections(content)) return content
+
+  const kept: string[] = []
+  // Whether each open section, innermost last, is shown.
+  const open: boolean[] = []
+
+  for (const line of content.split("\n")) {
+    const marker = IF_MARKER.exec(line)
+    if (marker) {
+      const { conditions } = parseConditions(marker[1]!)
+      open.push(conditions.every((condition) => conditionHolds(condition, context)))
+    } else if (ENDIF_MARKER.test(line)) {
+      open.pop()
+    } else if (open.every(Boolean)) {
+      kept.push(line)
+    }
+  }
+  return kept.join("\n")
+}
+
+/**
+ * The skill as a session sees it: trimmed to its sections and counted again
+ * with the tokenizer of the session's model.
+ */
+export function withSections(skill: ParsedSkill, context: SectionContext): ParsedSkill {
+  const content = selectSections(skill.content, context)
+  const tokenCount = countTokens(content, context.model)
+  return content === skill.content && tokenCount === skill.tokenCount ? skill : { ...skill, content, tokenCount }
+}
+
+/** Reports malformed and unbalanced section markers when a skill loads. */
+export function checkSections(content: string, filePath: string, onDiagnostic?: DiagnosticReporter): void {
+  const openLines: number[] = []
+  const report = (line: number, message: string) =>
+    onDiagnostic?.({ severity: "warning", file: filePath, path: "", line, message })
+
+  content.split("\n").forEach((text, index) => {
+    const line = index + 1
+    const marker = IF_MARKER.exec(text)
+    if (marker) {
+      openLines.push(line)
+      parseConditions(marker[1]!).problems.forEach((problem) => report(line, problem))
+    } else if (ENDIF_MARKER.test(text) && openLines.pop() === undefined) {
+      report(line, "<!-- endif --> without a matching <!-- if ... -->")
+    }
+  })
+
+  for (const line of openLines) {
+    report(line, "<!-- if ... --> is never closed, so the section runs to the end of the skill")
+  }
+}
@@ -0,0 +1,123 @@
+import { statSync } from "node:fs"
+import type { ConfigDiagnostic, ParsedSkill } from "../types.js"
+
+/** A parsed SKILL.md and the problems reported while parsing it. */
+export interface ParsedSkillFile {
+  skill: ParsedSkill
+  diagnostics: ConfigDiagnostic[]
+  /** Other files the parse depends on, present or not, such as the package.json of template variables. */
+  dependencies?: string[]
+}
+
+interface FileStamp {
+  path: string
+  mtimeMs: number
+  size: number
+  ino: number
+}
+
+interface StoredLookup {
+  value: unknown
+  stamps: FileStamp[]
+}
+
+export interface LookupOptions {
+  /**
+   * Files or directories the value was derived from; it is found again when
+   * one changes, appears or disappears, or when the list itself changes.
+   */
+  dependsOn?: string[]
+}
+
+interface StoredSkill {
+  /** The lookup name and origin the skill was parsed for. */
+  variant: string
+  /** The SKILL.md and its included files, as they were when parsed. */
+  stamps: FileStamp[]
+  result: ParsedSkillFile
+}
+
+function stampFile(path: string): FileStamp | null {
+  try {
+    const { mtimeMs, size, ino } = statSync(path)
+    return { path, mtimeMs, size, ino }
+  } catch {
+    return null
+  }
+}
+
+/** The stamp of a path that may not exist; a missing path gets a size of -1. */
+function stampPath(path: string): FileStamp {
+  return stampFile(path) ?? { path, mtimeMs: 0, size: -1, ino: 0 }
+}
+
+function isUnchanged(stamp: FileStamp): boolean {
+  const current = stampPath(stamp.path)
+  return current.mtimeMs === stamp.mtimeMs && current.size === stamp.size && current.ino === stamp.ino
+}
+
+/**
+ * Parsed skills keyed by the resolved path of their SKILL.md, shared by
+ * every session and resolver in the process. A stored skill is reused while
+ * its file and included files keep their mtime and size, so a trigger that
+ * fires on every tool call costs a few `stat`s instead of a read and parse.
+ *
+ * Lookups (which file a skill name resolves to, which directories are
+ * searched, project facts for templates) are memoized too, and found again
+ * when a file they depend on changes. `clear()` forgets everything; the
+ * plugin clears the store when it starts and on every hot reload.
+ */
+export class SkillStore {
+  private readonly skills = new Map<string, StoredSkill>()
+  private readonly lookups = new Map<string, StoredLookup>()
+
+  /**
+   * Returns the stored parse of `filePath` for `variant` when nothing it was
+   * read from has changed, and otherwise parses it again with `parse`.
+   */
+  readSkill(filePath: string, variant: string, parse: () => ParsedSkillFile | null): ParsedSkillFile | null {
+    const stored = this.skills.get(filePath)
+    if (stored && stored.variant === variant && stored.stamps.every(isUnchanged)) {
+      return stored.result
+    }
+
+    const stamp = stampFile(filePath)
+    const result = stamp && parse()
+    if (!stamp || !result) {
+      this.skills.delete(filePath)
+      return null
+    }
+
+    const included = (result.skill.includedFiles ?? []).map(stampFile)
+    const stamps = [
+      stamp,
+      ...included.filter((s): s is FileStamp => s !== null),
+      ...(result.dependencies ?? []).map(stampPath),
+    ]
+    this.skills.set(filePath, { variant, stamps, result })
+    return result
+  }
+
+  /** Memoizes `find` under `key` while nothing it depends on has changed. */
+  lookup<T>(key: string, find: () => T, { dependsOn = [] }: LookupOptions = {}): T {
+    const stored = this.lookups.get(key)
+    const samePaths =
+      stored?.stamps.length === dependsOn.length && stored.stamps.every((stamp, i) => stamp.path === dependsOn[i])
+    if (stored && samePaths && stored.stamps.every(isUnchanged)) {
+      return stored.value as T
+    }
+
+    const stamps = dependsOn.map(stampPath)
+    const value = find()
+    this.lookups.set(key, { value, stamps })
+    return value
+  }
+
+  clear(): void {
+    this.skills.clear()
+    this.lookups.clear()
+  }
+}
+
+/** The store used by the skill loader. */
+export const skillStore = new SkillStore()
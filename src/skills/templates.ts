@@ -0,0 +1,118 @@
+import { existsSync, readFileSync, statSync } from "node:fs"
+import { dirname, join, resolve } from "node:path"
+import type { DiagnosticReporter } from "../types.js"
+
+/** `{{package.name}}`, `{{ env.API_URL }}`: a dotted name starting with a known root. */
+const VARIABLE_PATTERN = /\{\{\s*((?:package|env|git|projectDir)(?:\.[^\s.{}]+)*)\s*\}\}/g
+
+/** Project facts skills can reference. */
+export interface TemplateValues {
+  projectDir: string
+  /** The project's package.json, if it has a readable one. */
+  package?: unknown
+  git: { branch?: string }
+}
+
+export interface TemplateOptions {
+  /** Environment variables `{{env.NAME}}` may read; all others are refused. */
+  allowedEnv: string[]
+}
+
+function readPackageJson(projectDir: string): unknown {
+  try {
+    return JSON.parse(readFileSync(join(projectDir, "package.json"), "utf-8"))
+  } catch {
+    return undefined
+  }
+}
+
+/** Finds the git directory for `dir`, following the `gitdir:` file of worktrees and submodules. */
+function findGitDir(dir: string): string | null {
+  for (let current = dir; ; current = dirname(current)) {
+    const dotGit = join(current, ".git")
+    if (existsSync(dotGit)) {
+      if (statSync(dotGit).isDirectory()) return dotGit
+      const match = /^gitdir:\s*(.+)$/m.exec(readFileSync(dotGit, "utf-8"))
+      return match ? resolve(current, match[1]!.trim()) : null
+    }
+    if (dirname(current) === current) return null
+  }
+}
+
+/** The checked-out branch, or the abbreviated commit when HEAD is detached. */
+function readGitBranch(projectDir: string): string | undefined {
+  try {
+    const gitDir = findGitDir(projectDir)
+    if (!gitDir) return undefined
+    const head = readFileSync(join(gitDir, "HEAD"), "utf-8").trim()
+    const ref = /^ref:\s*refs\/heads\/(.+)$/.exec(head)
+    return ref ? ref[1] : head.slice(0, 7) || undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * The files project facts are read from, whether or not they exist: the
+ * package.json and the git HEAD (or where `.git` would be).
+ */
+export function templateSourceFiles(projectDir: string): string[] {
+  const gitDir = findGitDir(projectDir)
+  return [join(projectDir, "package.json"), gitDir ? join(gitDir, "HEAD") : join(projectDir, ".git")]
+}
+
+export function readTemplateValues(projectDir: string): TemplateValues {
+  return {
+    projectDir,
+    package: readPackageJson(projectDir),
+    git: { branch: readGitBranch(projectDir) },
+  }
+}
+
+function lookupPath(value: unknown, path: string[]): unknown {
+  let current = value
+  for (const key of path) {
+    if (typeof current !== "object" || current === null || !Object.hasOwn(current, key)) return undefined
+    current = (current as Record<string, unknown>)[key]
+  }
+  return current
+}
+
+/**
+ * Replaces template variables with project facts. A variable that has no
+ * value, or names an environment variable outside `allowedEnv`, is reported
+ * and replaced with nothing. Braces with any other name, such as Vue or
+ * Handlebars examples, are left alone.
+ */
+export function expandTemplateVariables(
+  content: string,
+  values: TemplateValues,
+  options: TemplateOptions,
+  filePath: string,
+  onDiagnostic?: DiagnosticReporter
+): string {
+  return content.replace(VARIABLE_PATTERN, (_match, name: string) => {
+    const [root, ...path] = name.split(".")
+    const report = (message: string) => {
+      onDiagnostic?.({ severity: "warning", file: filePath, path: "", message })
+      return ""
+    }
+
+    let value: unknown
+    if (root === "env") {
+      const envName = path.join(".")
+      if (!options.allowedEnv.includes(envName)) {
+        return report(`Environment variable "${envName}" is not in templateEnv, so {{${name}}} was left empty`)
+      }
+      value = process.env[envName]
+      if (value === undefined) return report(`Environment variable "${envName}" is not set`)
+    } else {
+      value = lookupPath(values, [root!, ...path])
+    }
+
+    if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+      return String(value)
+    }
+    return report(`Unknown template variable {{${name}}}`)
+  })
+}
@@ -0,0 +1,25 @@
+import type { ParsedSkill, SkillTier } from "../types.js"
+import { countTokens } from "../tokenizers.js"
+
+/** From the most to the least detailed. */
+export const SKILL_TIERS: readonly SkillTier[] = ["full", "condensed", "summary", "description"]
+
+function tierContent(skill: ParsedSkill, tier: SkillTier): string | undefined {
+  const text = {
+    full: skill.content,
+    condensed: skill.condensed,
+    summary: skill.summary,
+    description: skill.description,
+  }[tier]
+  return text?.trim() ? text : undefined
+}
+
+/**
+ * The skill at a tier, counted with the model's tokenizer, or null when the
+ * skill has no text for it. `full` is the skill itself.
+ */
+export function atTier(skill: ParsedSkill, tier: SkillTier, model?: string): ParsedSkill | null {
+  if (tier === "full") return skill
+  const content = tierContent(skill, tier)
+  return content === undefined ? null : { ...skill, content, tokenCount: countTokens(content, model), tier }
+}
@@ -0,0 +1,47 @@
+import type { PreloadSkillsConfig, ParsedSkill, SkillTriggerMaps } from "../types.js"
+
+function addTrigger(map: Record<string, string[]>, key: string, skillName: string): void {
+  const names = (map[key] ??= [])
+  if (!names.includes(skillName)) names.push(skillName)
+}
+
+/**
+ * Builds trigger maps, shaped like the config's, from the triggers skills
+ * declare in their frontmatter. `skills` is keyed by the name each skill is
+ * loaded by.
+ */
+export function collectSkillTriggers(skills: Map<string, ParsedSkill>): SkillTriggerMaps {
+  const maps: SkillTriggerMaps = { fileTypeSkills: {}, pathPatterns: {}, contentTriggers: {}, agentSkills: {} }
+
+  for (const [name, { triggers }] of skills) {
+    for (const ext of triggers?.fileTypes ?? []) addTrigger(maps.fileTypeSkills, ext, name)
+    for (const pattern of triggers?.paths ?? []) addTrigger(maps.pathPatterns, pattern, name)
+    for (const keyword of triggers?.keywords ?? []) addTrigger(maps.contentTriggers, keyword, name)
+    for (const agent of triggers?.agents ?? []) addTrigger(maps.agentSkills, agent, name)
+  }
+
+  return maps
+}
+
+/** Appends `extra`'s skills to `map`, keeping the config's entries first. */
+export function mergeTriggerMap(
+  map: Record<string, string[]> | undefined,
+  extra: Record<string, string[]>
+): Record<string, string[]> {
+  const merged: Record<string, string[]> = { ...map }
+  for (const [key, names] of Object.entries(extra)) {
+    merged[key] = [...new Set([...(merged[key] ?? []), ...names])]
+  }
+  return merged
+}
+
+/** Adds skill-declared triggers to a config's trigger maps. */
+export function mergeSkillTriggers(config: PreloadSkillsConfig, triggers: SkillTriggerMaps): PreloadSkillsConfig {
+  return {
+    ...config,
+    fileTypeSkills: mergeTriggerMap(config.fileTypeSkills, triggers.fileTypeSkills),
+    pathPatterns: mergeTriggerMap(config.pathPatterns, triggers.pathPatterns),
+    contentTriggers: mergeTriggerMap(config.contentTriggers, triggers.contentTriggers),
+    agentSkills: mergeTriggerMap(config.agentSkills, triggers.agentSkills),
+  }
+}
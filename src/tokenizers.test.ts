@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from "vitest"
+import { readFileSync } from "node:fs"
+import { estimateTokens } from "./utils.js"
+import {
+  countTokens,
+  getTokenizer,
+  loadTokenizer,
+  registerTokenizer,
+  clearRegisteredTokenizers,
+  TOKENIZERS,
+} from "./tokenizers.js"
+
+describe("tokenizers", () => {
+  it("picks the estimate for the model's family until its vocabulary is loaded", () => {
+    expect(getTokenizer("anthropic/claude-sonnet-4").id).toBe("claude-estimate")
+    expect(getTokenizer("openai/gpt-4o-mini").id).toBe("o200k-estimate")
+    expect(getTokenizer("openai/o3").id).toBe("o200k-estimate")
+    expect(getTokenizer("openai/gpt-4-turbo").id).toBe("cl100k-estimate")
+    expect(getTokenizer("google/gemini-2.5-pro").id).toBe("gemini-estimate")
+    expect(getTokenizer("groq/llama-3.3-70b").id).toBe("llama-estimate")
+    expect(getTokenizer("acme/unknown").id).toBe("heuristic")
+    expect(getTokenizer().id).toBe("heuristic")
+  })
+
+  it("counts code and CJK text by their pieces rather than their length", () => {
+    const code = "if (!user) {\n    return res.status(404).json({ error: 'Not found' });\n}"
+    const japanese = "日本語のテキストはトークンが多い"
+
+    expect(TOKENIZERS["o200k-estimate"]!.count("hello world")).toBe(2)
+    expect(countTokens(code, "anthropic/claude")).toBeGreaterThan(estimateTokens(code))
+    expect(countTokens(japanese, "openai/gpt-4")).toBeGreaterThan(estimateTokens(japanese) * 3)
+    expect(countTokens(japanese, "openai/gpt-4o")).toBeLessThan(countTokens(japanese, "openai/gpt-4"))
+    expect(countTokens(code, "acme/unknown")).toBe(estimateTokens(code))
+  })
+
+  it("caches counts per tokenizer", () => {
+    const count = vi.spyOn(TOKENIZERS["gemini-estimate"]!, "count")
+    const text = "Cached skill content ".repeat(10)
+
+    countTokens(text, "google/gemini-2.5-pro")
+    countTokens(text, "google/gemini-2.5-flash")
+    countTokens(text, "anthropic/claude")
+
+    expect(count).toHaveBeenCalledTimes(1)
+    count.mockRestore()
+  })
+
+  it("tries registered tokenizers before the built-in ones", () => {
+    const words = { id: "words", count: (text: string) => text.split(/\s+/).filter(Boolean).length }
+    registerTokenizer("anthropic/*", words)
+    registerTokenizer("**/claude-*", TOKENIZERS["o200k-estimate"]!)
+
+    try {
+      expect(getTokenizer("anthropic/claude-sonnet-4")).toBe(words)
+      expect(getTokenizer("bedrock/claude-sonnet-4").id).toBe("o200k-estimate")
+      expect(getTokenizer("openai/gpt-4o").id).toBe("o200k-estimate")
+      expect(countTokens("three short words", "anthropic/claude-sonnet-4")).toBe(3)
+    } finally {
+      clearRegisteredTokenizers()
+    }
+    expect(getTokenizer("anthropic/claude-sonnet-4").id).toBe("claude-estimate")
+  })
+
+  it("forgets the counts of a tokenizer registered again", () => {
+    registerTokenizer("acme/*", { id: "acme", count: () => 1 })
+    expect(countTokens("cached text", "acme/model")).toBe(1)
+
+    clearRegisteredTokenizers()
+    registerTokenizer("acme/*", { id: "acme", count: () => 2 })
+    expect(countTokens("cached text", "acme/model")).toBe(2)
+    clearRegisteredTokenizers()
+  })
+
+  it("keeps the counts of a registered tokenizer apart from a built-in one with the same id", () => {
+    const text = "Skill content counted by two tokenizers"
+    const builtIn = countTokens(text, "anthropic/claude-sonnet-4")
+    registerTokenizer("acme/*", { id: "claude-estimate", count: () => 1 })
+
+    try {
+      expect(countTokens(text, "acme/model")).toBe(1)
+      expect(countTokens(text, "anthropic/claude-sonnet-4")).toBe(builtIn)
+    } finally {
+      clearRegisteredTokenizers()
+    }
+  })
+})
+
+describe("bundled vocabularies", () => {
+  it("counts GPT models with their exact vocabulary once loaded", async () => {
+    await loadTokenizer("openai/gpt-4o")
+    await loadTokenizer("openai/gpt-4-turbo")
+
+    expect(getTokenizer("openai/gpt-4o").id).toBe("o200k")
+    expect(getTokenizer("openai/gpt-4-turbo").id).toBe("cl100k")
+    expect(countTokens("hello world", "openai/gpt-4o")).toBe(2)
+    expect(countTokens("日本語のテキストはトークンが多い", "openai/gpt-4o")).toBeLessThan(
+      countTokens("日本語のテキストはトークンが多い", "openai/gpt-4-turbo")
+    )
+  })
+
+  it("counts special tokens quoted in skills as plain text", async () => {
+    await loadTokenizer("openai/gpt-4o")
+    expect(countTokens("Documents end with <|endoftext|>", "openai/gpt-4o")).toBeGreaterThan(3)
+  })
+
+  it("leaves families without a public vocabulary on their estimate", async () => {
+    await loadTokenizer("anthropic/claude-sonnet-4")
+    await loadTokenizer("acme/unknown")
+
+    expect(getTokenizer("anthropic/claude-sonnet-4").id).toBe("claude-estimate")
+    expect(getTokenizer("acme/unknown").id).toBe("heuristic")
+  })
+
+  it("keeps the fallback estimates within a quarter of the exact counts", async () => {
+    const samples = [
+      readFileSync(new URL("../README.md", import.meta.url), "utf-8"),
+      readFileSync(new URL("./tokenizers.ts", import.meta.url), "utf-8"),
+    ]
+    for (const model of ["openai/gpt-4o", "openai/gpt-4-turbo"]) {
+      await loadTokenizer(model)
+      const family = getTokenizer(model).id
+      for (const text of samples) {
+        const exact = countTokens(text, model)
+        const estimate = TOKENIZERS[`${family}-estimate`]!.count(text)
+        expect(Math.abs(estimate - exact) / exact).toBeLessThan(0.25)
+      }
+    }
+  })
+})
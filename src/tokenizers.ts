@@ -0,0 +1,225 @@
+import { statSync } from "node:fs"
+import { homedir } from "node:os"
+import { basename, extname, join, resolve } from "node:path"
+import { pathToFileURL } from "node:url"
+import type { ConfigDiagnostic, Tokenizer } from "./types.js"
+import { estimateTokens, matchGlobPattern } from "./utils.js"
+
+/**
+ * Roughly how a model family's vocabulary splits each kind of pre-token.
+ * Rates are characters per token, except `cjkTokensPerChar`.
+ */
+interface TokenizerProfile {
+  /** Latin-script words, leading space included. */
+  wordChars: number
+  /** Words in other alphabets (Cyrillic, Greek, Arabic, ...). */
+  otherScriptChars: number
+  /** Han, kana and Hangul characters. */
+  cjkTokensPerChar: number
+  digitsPerToken: number
+  /** Runs of punctuation and symbols, as in code. */
+  symbolChars: number
+  /** Runs of spaces, tabs and newlines, as in indentation. */
+  whitespaceChars: number
+}
+
+// The pre-tokenizer the GPT and Llama 3 vocabularies split text with before
+// merging. The estimate tokenizers count its pieces at a per-family rate,
+// not with the vocabulary's merges, so their counts are approximate.
+const PIECE_PATTERN = /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+/gu
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu
+const LATIN_PATTERN = /^\p{Script=Latin}+$/u
+
+const PROFILES: Record<string, TokenizerProfile> = {
+  o200k: { wordChars: 6.5, otherScriptChars: 4, cjkTokensPerChar: 0.8, digitsPerToken: 3, symbolChars: 2.5, whitespaceChars: 16 },
+  cl100k: { wordChars: 6, otherScriptChars: 2.5, cjkTokensPerChar: 1.2, digitsPerToken: 3, symbolChars: 2, whitespaceChars: 8 },
+  claude: { wordChars: 5.5, otherScriptChars: 2.5, cjkTokensPerChar: 1.1, digitsPerToken: 3, symbolChars: 1.5, whitespaceChars: 4 },
+  gemini: { wordChars: 6, otherScriptChars: 4, cjkTokensPerChar: 0.7, digitsPerToken: 1, symbolChars: 2, whitespaceChars: 8 },
+  llama: { wordChars: 6, otherScriptChars: 3.5, cjkTokensPerChar: 0.9, digitsPerToken: 3, symbolChars: 2.5, whitespaceChars: 16 },
+}
+
+/** Model IDs, as `provider/model`, and the tokenizer family each uses; the first match wins. */
+const MODEL_FAMILIES: Array<[pattern: RegExp, tokenizer: string]> = [
+  [/gpt-4o|gpt-4\.1|gpt-5|chatgpt|(^|\/)o[134](-|$)/i, "o200k"],
+  [/gpt-4|gpt-3\.5/i, "cl100k"],
+  [/claude|^anthropic\//i, "claude"],
+  [/gemini|gemma|^google\//i, "gemini"],
+  [/llama/i, "llama"],
+]
+
+function pieceTokens(piece: string, profile: TokenizerProfile): number {
+  const text = piece.startsWith(" ") && piece.length > 1 ? piece.slice(1) : piece
+  if (/^\s+$/.test(text)) return Math.ceil(text.length / profile.whitespaceChars)
+  if (/^\p{N}+$/u.test(text)) return Math.ceil(text.length / profile.digitsPerToken)
+  if (!/^\p{L}+$/u.test(text)) return Math.ceil(text.length / profile.symbolChars)
+
+  const cjk = text.match(CJK_PATTERN)?.length ?? 0
+  const rest = text.length - cjk
+  const restTokens = rest && Math.ceil(rest / (LATIN_PATTERN.test(text) ? profile.wordChars : profile.otherScriptChars))
+  return Math.ceil(cjk * profile.cjkTokensPerChar) + restTokens
+}
+
+function createTokenizer(id: string, profile: TokenizerProfile): Tokenizer {
+  return {
+    id,
+    count: (text) => {
+      let tokens = 0
+      for (const [piece] of text.matchAll(PIECE_PATTERN)) tokens += pieceTokens(piece, profile)
+      return tokens
+    },
+  }
+}
+
+/** Four characters per token: the fallback for models of no known family. */
+export const heuristicTokenizer: Tokenizer = { id: "heuristic", count: estimateTokens }
+
+/**
+ * The built-in estimates, by id: the heuristic and a `<family>-estimate`
+ * per model family. A family with a bundled vocabulary only falls back to
+ * its estimate until `loadTokenizer` has loaded the vocabulary.
+ */
+export const TOKENIZERS: Readonly<Record<string, Tokenizer>> = {
+  heuristic: heuristicTokenizer,
+  ...Object.fromEntries(
+    Object.entries(PROFILES).map(([family, profile]) => [
+      `${family}-estimate`,
+      createTokenizer(`${family}-estimate`, profile),
+    ])
+  ),
+}
+
+/** The public vocabularies bundled with gpt-tokenizer, imported on first use as each is several megabytes. */
+const VOCABULARIES: Record<string, () => Promise<{ countTokens: typeof import("gpt-tokenizer").countTokens }>> = {
+  o200k: () => import("gpt-tokenizer/encoding/o200k_base"),
+  cl100k: () => import("gpt-tokenizer/encoding/cl100k_base"),
+}
+
+/** Loaded vocabulary tokenizers, by family. */
+const vocabularies = new Map<string, Tokenizer>()
+
+/** Registered tokenizers and the `provider/model` globs they count for, in registration order. */
+const registered: Array<{ pattern: string; tokenizer: Tokenizer }> = []
+
+const MAX_CACHED_COUNTS = 500
+// Keyed by the tokenizer itself: a module may pick the id of a built-in one.
+const counts = new WeakMap<Tokenizer, Map<string, number>>()
+
+function modelFamily(model: string): string | undefined {
+  return MODEL_FAMILIES.find(([pattern]) => pattern.test(model))?.[1]
+}
+
+/**
+ * Loads the bundled vocabulary of the model's family, if it has one, so
+ * `getTokenizer` returns exact counts instead of the family's estimate.
+ * A vocabulary that fails to load leaves the estimate in place.
+ */
+export async function loadTokenizer(model?: string): Promise<void> {
+  const family = model && modelFamily(model)
+  const load = family && VOCABULARIES[family]
+  if (!load || vocabularies.has(family)) return
+
+  try {
+    const { countTokens: countVocabularyTokens } = await load()
+    // Skill text may quote special tokens such as <|endoftext|>; count them as plain text.
+    const options = { disallowedSpecial: new Set<string>() }
+    vocabularies.set(family, { id: family, count: (text) => countVocabularyTokens(text, options) })
+  } catch {
+    // Keep counting with the estimate.
+  }
+}
+
+/**
+ * Counts tokens with `tokenizer` for models matching `pattern`, a glob over
+ * `provider/model` such as `anthropic/*`. Registered tokenizers are tried in
+ * order before the built-in ones.
+ */
+export function registerTokenizer(pattern: string, tokenizer: Tokenizer): void {
+  registered.push({ pattern, tokenizer })
+}
+
+/** Forgets every registered tokenizer, e.g. before a reload registers them again. */
+export function clearRegisteredTokenizers(): void {
+  registered.length = 0
+}
+
+/**
+ * The tokenizer for a model given as `provider/model`: a registered one,
+ * else the family's loaded vocabulary, else the family's estimate, or the
+ * heuristic when the family is unknown.
+ */
+export function getTokenizer(model?: string): Tokenizer {
+  if (!model) return heuristicTokenizer
+  const custom = registered.find(({ pattern }) => matchGlobPattern(model, pattern))
+  if (custom) return custom.tokenizer
+  const family = modelFamily(model)
+  if (!family) return heuristicTokenizer
+  return vocabularies.get(family) ?? TOKENIZERS[`${family}-estimate`] ?? heuristicTokenizer
+}
+
+/**
+ * Counts tokens with the model's tokenizer, remembering the most recent
+ * counts per tokenizer so skills are not re-counted on every message.
+ */
+export function countTokens(text: string, model?: string): number {
+  const tokenizer = getTokenizer(model)
+  let cached = counts.get(tokenizer)
+  if (!cached) counts.set(tokenizer, (cached = new Map()))
+
+  let count = cached.get(text)
+  if (count === undefined) {
+    count = tokenizer.count(text)
+    if (cached.size >= MAX_CACHED_COUNTS) cached.delete(cached.keys().next().value!)
+    cached.set(text, count)
+  }
+  return count
+}
+
+function resolveModulePath(path: string, projectDir: string): string {
+  if (path === "~" || path.startsWith("~/")) return join(homedir(), path.slice(1))
+  return resolve(projectDir, path)
+}
+
+/** A module's tokenizer: a default-exported `count` function, or an object with `count` and an optional `id`. */
+function readTokenizerExport(exported: unknown, fallbackId: string): Tokenizer | null {
+  const candidate = typeof exported === "function" ? { count: exported } : exported
+  if (typeof candidate !== "object" || candidate === null) return null
+
+  const { id, count } = candidate as { id?: unknown; count?: unknown }
+  if (typeof count !== "function" || typeof count("token") !== "number") return null
+  return { id: typeof id === "string" && id ? id : fallbackId, count: (text) => count(text) as number }
+}
+
+/**
+ * Registers the tokenizer modules of the `tokenizers` option, replacing
+ * those registered before. Paths are relative to the project, or to the
+ * home directory with `~/`. Modules that can't be imported or export no
+ * tokenizer are reported and skipped.
+ */
+export async function loadTokenizerModules(
+  modules: Record<string, string>,
+  projectDir: string
+): Promise<ConfigDiagnostic[]> {
+  clearRegisteredTokenizers()
+  const diagnostics: ConfigDiagnostic[] = []
+
+  for (const [pattern, path] of Object.entries(modules)) {
+    const file = resolveModulePath(path, projectDir)
+    const report = (message: string) =>
+      diagnostics.push({ severity: "error", file, path: `tokenizers["${pattern}"]`, message })
+
+    try {
+      // The mtime query makes a reload pick up edits instead of the module cache.
+      const url = `${pathToFileURL(file).href}?t=${Math.round(statSync(file).mtimeMs)}`
+      const mod = (await import(url)) as { default?: unknown }
+      const tokenizer = readTokenizerExport(mod.default, basename(file, extname(file)))
+      if (tokenizer) {
+        registerTokenizer(pattern, tokenizer)
+      } else {
+        report("The module must export a count(text) function returning a number, or { id, count }")
+      }
+    } catch (error) {
+      report(`Could not load tokenizer: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+  return diagnostics
+}
@@ -0,0 +1,55 @@
+import type { PluginContext, ResolvedConfig, SkillTriggerMaps } from "../types.js"
+import { layerLabel } from "../config/merge.js"
+import { PROFILE_ENV_VAR } from "../config/profiles.js"
+
+function formatLayers(resolved: ResolvedConfig): string[] {
+  if (resolved.layers.length === 0) {
+    return ["No config files found — using defaults."]
+  }
+
+  return resolved.layers.map((layer, i) => `${i + 1}. **${layerLabel(layer)}** — ${layer.path}`)
+}
+
+function formatSources(resolved: ResolvedConfig): string[] {
+  return Object.entries(resolved.sources)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([path, layers]) => `- \`${path}\` ← ${layers.join(", ")}`)
+}
+
+function formatSkillTriggers(triggers: SkillTriggerMaps): string[] {
+  return Object.entries(triggers).flatMap(([option, map]) =>
+    Object.entries(map).map(([key, skills]) => `- \`${option}\` \`${key}\` → ${skills.join(", ")}`)
+  )
+}
+
+export function createConfigInfoTool(ctx: PluginContext) {
+  return {
+    description:
+      "Show the effective preload-skills configuration and which config file each value came from.",
+    args: {},
+    async execute() {
+      const resolved = ctx.resolvedConfig
+      const sources = formatSources(resolved)
+      const nested = ctx.nestedConfigs.getLoaded().map((config) => `- ${config.path}`)
+      const skillTriggers = formatSkillTriggers(ctx.skillTriggers)
+
+      return [
+        "**Config layers** (lowest to highest precedence)",
+        "",
+        ...formatLayers(resolved),
+        "",
+        ...(resolved.profile
+          ? [`**Profile:** \`${resolved.profile}\` (selected by \`${PROFILE_ENV_VAR}\`)`, ""]
+          : []),
+        "**Effective config**",
+        "",
+        "```json",
+        JSON.stringify(resolved.config, null, 2),
+        "```",
+        ...(sources.length > 0 ? ["", "**Value sources**", "", ...sources] : []),
+        ...(skillTriggers.length > 0 ? ["", "**Triggers declared by skills**", "", ...skillTriggers] : []),
+        ...(nested.length > 0 ? ["", "**Nested configs** (loaded so far)", "", ...nested] : []),
+      ].join("\n")
+    },
+  }
+}
@@ -1,17 +1,30 @@
 import type { ToolContext } from "@opencode-ai/plugin"
-import type { SessionManager, ToastFn } from "../types.js"
+import type { ParsedSkill, SessionManager, SkillTier, ToastFn } from "../types.js"
+import { withSections } from "../skills/sections.js"
+import { getTokenizer } from "../tokenizers.js"
 
 interface SkillInfo {
   name: string
   description: string
   tokens: number
+  /** Where the skill was found, e.g. `project` or `package @acme/skills`. */
+  source?: string
+  /** How much of the skill is injected. */
+  tier: SkillTier
+  /** The heading sections loaded, for a skill loaded in part. */
+  sections?: string[]
+}
+
+function describeSource(skill: ParsedSkill): string | undefined {
+  return skill.packageName ? `package ${skill.packageName}` : skill.source
 }
 
 function formatSkillTable(skills: SkillInfo[]): string {
   const totalTokens = skills.reduce((sum, s) => sum + s.tokens, 0)
-  const lines = skills.map(
-    (s) => `- **${s.name}** (${s.tokens} tokens) — ${s.description}`
-  )
+  const lines = skills.map((s) => {
+    const sections = s.sections ? `, sections ${s.sections.map((slug) => `#${slug}`).join(" ")}` : ""
+    return `- **${s.name}** (${s.source ? `${s.source}, ` : ""}${s.tier}, ${s.tokens} tokens${sections}) — ${s.description}`
+  })
 
   return [
     `**${skills.length} skill${skills.length === 1 ? "" : "s"} loaded** (${totalTokens} total tokens)`,
@@ -31,7 +44,7 @@ function formatToast(skills: SkillInfo[], tokensUsed: number): string {
 export function createLoadedSkillsTool(sessionManager: SessionManager, toast: ToastFn) {
   return {
     description:
-      "List all preloaded skills for the current session — names, descriptions, and token counts.",
+      "List all preloaded skills for the current session — names, descriptions, tiers, token counts, where each was found, and which sections are loaded of skills loaded in part.",
     args: {},
     async execute(_args: Record<string, never>, context: ToolContext) {
       const state = sessionManager.getState(context.sessionID)
@@ -41,10 +54,14 @@ export function createLoadedSkillsTool(sessionManager: SessionManager, toast: To
         return "No skills currently loaded for this session."
       }
 
+      const sections = sessionManager.getSectionContext(context.sessionID)
       const skillInfos: SkillInfo[] = skills.map((skill) => ({
         name: skill.name,
         description: skill.description,
-        tokens: skill.tokenCount,
+        tokens: withSections(skill, sections).tokenCount,
+        source: describeSource(skill),
+        tier: skill.tier ?? "full",
+        sections: skill.sections,
       }))
 
       toast(formatToast(skillInfos, state.totalTokensUsed), "success")
@@ -52,7 +69,7 @@ export function createLoadedSkillsTool(sessionManager: SessionManager, toast: To
       return [
         formatSkillTable(skillInfos),
         "",
-        `Token budget: ${state.totalTokensUsed} used`,
+        `Token budget: ${state.totalTokensUsed} used (counted with the ${getTokenizer(state.model).id} tokenizer)`,
       ].join("\n")
     },
   }
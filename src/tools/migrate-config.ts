@@ -0,0 +1,37 @@
+import type { PluginContext } from "../types.js"
+import { migrateConfigFiles, CURRENT_CONFIG_VERSION, type ConfigFileMigration } from "../config/migrate.js"
+
+function formatMigration(file: ConfigFileMigration): string[] {
+  const changes = file.changes.map((change) => `  - \`${change.path}\`: ${change.message}`)
+  switch (file.status) {
+    case "updated":
+      return [`- **Updated** ${file.path} (version ${file.fromVersion} → ${CURRENT_CONFIG_VERSION})`, ...changes]
+    case "manual":
+      return [`- **Update manually** ${file.path} — ${file.reason}`, ...changes]
+    case "failed":
+      return [`- **Failed** ${file.path} — ${file.reason}`]
+    case "current":
+      return [`- Already current: ${file.path}`]
+  }
+}
+
+export function createMigrateConfigTool(ctx: PluginContext) {
+  return {
+    description: `Upgrade preload-skills config files to config version ${CURRENT_CONFIG_VERSION}, rewriting deprecated options.`,
+    args: {},
+    async execute() {
+      const nestedPaths = ctx.nestedConfigs.getLoaded().map((config) => config.path)
+      const results = await migrateConfigFiles(ctx.resolvedConfig.layers, nestedPaths, ctx.projectDir)
+
+      if (results.length === 0) {
+        return "No config files found — nothing to migrate."
+      }
+
+      return [
+        `**Config migration** (current version ${CURRENT_CONFIG_VERSION})`,
+        "",
+        ...results.flatMap(formatMigration),
+      ].join("\n")
+    },
+  }
+}
@@ -1,33 +1,131 @@
 export interface SkillSettings {
+  /** Inject the skill's summary instead of its full content. */
   useSummary?: boolean
+  /** Overrides the skill's frontmatter `priority`; higher wins conflicts. */
+  priority?: number
 }
 
+/**
+ * `keepFirst` keeps the skill loaded first, `priority` keeps the one with
+ * the higher priority (the first on a tie), `replace` keeps the newest.
+ */
+export type ConflictResolution = "keepFirst" | "priority" | "replace"
+
+/**
+ * How skills compete for `maxTokens`: `order` favours the skills listed
+ * first, `priority` the higher priorities, `maximize-count` fits as many
+ * skills as it can, and `maximize-value` the highest total priority.
+ */
+export type BudgetStrategy = "order" | "priority" | "maximize-count" | "maximize-value"
+
 export type InjectionMethod = "systemPrompt" | "chatMessage"
 
 export type TriggerType = "initial" | "fileType" | "agent" | "path" | "content" | "conditional"
 
+/**
+ * How much of a skill is injected: its content, its `condensed` text, its
+ * summary or its one-line description. Skills step down a tier at a time
+ * when the token budget is tight.
+ */
+export type SkillTier = "full" | "condensed" | "summary" | "description"
+
 export type MinificationLevel = "standard" | "aggressive"
 
+/**
+ * The preload-skills config. `src/config/schema.json` is generated from this
+ * interface (`npm run schema`), and config files are validated against it.
+ */
 export interface PreloadSkillsConfig {
+  /** URL or path of the JSON Schema, for editor support. Ignored by the plugin. */
+  $schema?: string
+  /**
+   * Config format version. Files without it are treated as version 1 and
+   * migrated on load.
+   * @minimum 1
+   */
+  version?: number
+  /** Presets to merge before this file: relative paths or npm package names. */
+  extends?: string | string[]
+  /** Skills to load at the start of every session. */
   skills: string[]
+  /**
+   * Extra directories to look up skills in, searched in order before the
+   * built-in locations. Relative paths are resolved from the project and `~`
+   * is the home directory.
+   */
+  skillPaths?: string[]
+  /** Look up skills in `~/.config/opencode/skills` and `~/.claude/skills`. */
+  globalSkills?: boolean
+  /**
+   * Find skills shipped by the project's dependencies (a `skills/` directory,
+   * or `opencode.skills` in their package.json) and load them at startup.
+   * Off by default: dependencies are third-party code.
+   */
+  packageSkills?: boolean
+  /**
+   * Environment variables skills may read with `{{env.NAME}}`. Any other
+   * `env` variable is refused, so secrets never reach the prompt.
+   */
+  templateEnv?: string[]
+  /** Map comma-separated file extensions to skills loaded when a matching file is touched. */
   fileTypeSkills?: Record<string, string[]>
+  /** Map agent names to skills loaded when that agent is used. */
   agentSkills?: Record<string, string[]>
+  /** Map glob patterns to skills loaded when a matching file is touched. */
   pathPatterns?: Record<string, string[]>
+  /** Map keywords to skills loaded when a message mentions them. */
   contentTriggers?: Record<string, string[]>
+  /** Named skill bundles, referenced elsewhere as `@name`. */
   groups?: Record<string, string[]>
+  /** Skills loaded at startup only when their condition holds. */
   conditionalSkills?: ConditionalSkill[]
+  /** Groups of mutually exclusive skills; at most one skill of each group is loaded. */
+  conflicts?: string[][]
+  /** Which skill wins when a triggered skill conflicts with a loaded one. */
+  conflictResolution?: ConflictResolution
+  /** Per-skill settings, keyed by skill name. */
   skillSettings?: Record<string, SkillSettings>
+  /** Where to inject skills. */
   injectionMethod?: InjectionMethod
+  /**
+   * Token budget for all skills in a session.
+   * @exclusiveMinimum 0
+   */
   maxTokens?: number
+  /** Which skills keep their detail, and which are dropped, when they do not fit in `maxTokens`. */
+  budgetStrategy?: BudgetStrategy
+  /**
+   * Modules that count tokens, keyed by a glob over `provider/model` (such
+   * as `anthropic/*`) and tried in order before the built-in tokenizers.
+   * Paths are relative to the project and `~` is the home directory.
+   */
+  tokenizers?: Record<string, string>
+  /** Inject skill summaries instead of full content. */
   useSummaries?: boolean
-  useMinification?: boolean | MinificationLevel
+  /** Minify skill content. `true` is still read as `"standard"`, with a deprecation warning. */
+  useMinification?: false | MinificationLevel
+  /** Show TUI toasts when skills are loaded. */
   showToasts?: boolean
+  /** Register the `loaded_skills`, `preload_skills_config` and `preload_skills_migrate` tools. */
   enableTools?: boolean
+  /** Record skill usage in `.opencode/preload-skills-analytics.json`. */
   analytics?: boolean
+  /** Re-inject loaded skills after context compaction. */
   persistAfterCompaction?: boolean
+  /** Log debug messages. */
   debug?: boolean
+  /** Fail plugin startup on any config error or warning. */
+  strict?: boolean
+  /** Reload config and skill files when they change. */
+  hotReload?: boolean
+  /** Named option sets, selected by `PRELOAD_SKILLS_PROFILE` or the agent name. */
+  profiles?: Record<string, ConfigProfile>
 }
 
+/** Options a profile can override; profiles cannot nest or extend presets. */
+export interface ConfigProfile
+  extends Partial<Omit<PreloadSkillsConfig, "$schema" | "version" | "extends" | "profiles">> {}
+
 export type Logger = (
   level: "debug" | "info" | "warn" | "error",
   message: string,
@@ -41,19 +139,41 @@ export type ToastFn = (message: string, variant?: ToastVariant) => void
 export interface LoadSkillsResult {
   skills: ParsedSkill[]
   tokensUsed: number
+  /** Heading sections to load, by skill name, for skills requested as `skill#heading`. */
+  sections?: Record<string, string[]>
+  /** The tier each skill stepped down to under the budget, for skills not loaded in full. */
+  tiers?: Record<string, SkillTier>
 }
 
+/** The options that decide which of two conflicting skills a session keeps. */
+export type ConflictSettings = Pick<PreloadSkillsConfig, "conflicts" | "conflictResolution" | "skillSettings">
+
 export interface SessionManager {
   getState(sessionId: string): SessionState
-  queueSkills(sessionId: string, skills: ParsedSkill[], triggerType: TriggerType): void
+  startSession(sessionId: string, profile: string, initial: InitialSkills): SessionState
+  queueSkills(
+    sessionId: string,
+    skills: ParsedSkill[],
+    triggerType: TriggerType,
+    loaded?: Pick<LoadSkillsResult, "sections" | "tiers">,
+    /** The session profile's conflict settings; the top-level config's by default. */
+    settings?: ConflictSettings
+  ): void
   getPendingSkills(sessionId: string): ParsedSkill[]
   clearPendingSkills(sessionId: string): void
+  /** The session's loaded skills; those loaded in part or at a lower tier are trimmed to match. */
   getAllLoadedSkills(sessionId: string): ParsedSkill[]
+  /** A loaded skill as the session sees it: trimmed to its loaded sections and at its tier. */
+  viewSkill(sessionId: string, skill: ParsedSkill): ParsedSkill
   getCachedSkill(name: string): ParsedSkill | undefined
   cacheSkill(skill: ParsedSkill): void
   trackFilePath(callId: string, filePath: string): void
   getFilePath(callId: string): string | undefined
   clearFilePath(callId: string): void
+  /** What the session knows about its agent, model and files, for conditional sections. */
+  getSectionContext(sessionId: string): SectionContext
+  /** Records the session's model and counts its loaded skills again if the tokenizer changed. */
+  setModel(sessionId: string, model: string): Promise<void>
   cleanup(sessionId: string): void
   saveAnalytics(): void
   markInitialSkillsInjected(sessionId: string): void
@@ -63,52 +183,237 @@ export interface SkillResolver {
   getSkillsForExtension(ext: string): string[]
   getSkillsForPath(filePath: string): string[]
   resolveGroups(skillNames: string[]): string[]
+  /**
+   * Loads skills and their dependencies within the remaining token budget.
+   * Skills the session has loaded are left out and satisfy dependencies,
+   * unless a `skill#heading` asks for a section it lacks. With `sections`,
+   * skills are counted as trimmed to their conditional sections.
+   */
   loadWithBudget(
     skillNames: string[],
     currentTokens: number,
     sessionId: string,
-    triggerType: TriggerType
+    triggerType: TriggerType,
+    loaded?: Pick<SessionState, "loadedSkills" | "loadedSections">,
+    sections?: SectionContext
   ): LoadSkillsResult
 }
 
-export interface PluginContext {
-  readonly config: PreloadSkillsConfig
+export type ConfigLayerName =
+  | "global-inline"
+  | "global"
+  | "project-inline"
+  | "project"
+  | "opencode"
+  | "local"
+  | "preset"
+  | "nested"
+
+export interface ConfigLayer {
+  name: ConfigLayerName
+  path: string
+  /** The `extends` entry this layer was loaded from, for presets. */
+  preset?: string
+  config: Partial<PreloadSkillsConfig>
+}
+
+/** Maps a config value's path to the labels of the layers that set it. */
+export type ConfigSources = Record<string, string[]>
+
+export type DiagnosticSeverity = "error" | "warning"
+
+export interface ConfigDiagnostic {
+  severity: DiagnosticSeverity
+  file: string
+  path: string
+  line?: number
+  message: string
+}
+
+/** Receives problems found while loading config or skill files. */
+export type DiagnosticReporter = (diagnostic: ConfigDiagnostic) => void
+
+/** A `preload-skills.*` file in a subdirectory of the project, e.g. a monorepo package. */
+export interface NestedConfig {
+  /** The directory the config applies to; its path patterns are relative to it. */
+  dir: string
+  path: string
+  fileTypeSkills: Record<string, string[]>
+  pathPatterns: Record<string, string[]>
+}
+
+export interface NestedConfigResolver {
+  /** Finds the nearest nested config enclosing `filePath`, or null to use the project config. */
+  find(filePath: string): Promise<NestedConfig | null>
+  /** Nested configs loaded so far. */
+  getLoaded(): NestedConfig[]
+}
+
+export interface ResolvedConfig {
+  config: PreloadSkillsConfig
+  /** The profile selected by `PRELOAD_SKILLS_PROFILE`, already applied to `config`. */
+  profile?: string
+  layers: ConfigLayer[]
+  sources: ConfigSources
+  diagnostics: ConfigDiagnostic[]
+}
+
+/** The config and initial skills a session runs with. */
+export interface SessionProfile {
+  /** The agent profile in use, or undefined for the top-level config. */
+  profile?: string
+  config: PreloadSkillsConfig
+  skillResolver: SkillResolver
+  /** Skills loaded at session start, whole; those in `initialTiers` are injected at that tier. */
+  initialSkills: ParsedSkill[]
+  /** The tier of initial skills stepped down to fit the budget. */
+  initialTiers: Record<string, SkillTier>
+  initialFormattedContent: string
+  initialTokensUsed: number
+}
+
+/** What a new session starts with. */
+export type InitialSkills = Pick<SessionProfile, "initialSkills" | "initialTiers" | "initialTokensUsed">
+
+/**
+ * Shared state for all hooks. The non-readonly fields are replaced in place
+ * when config or skill files are hot-reloaded, so hooks must read them from
+ * the context on every call rather than capturing them once.
+ */
+export interface PluginContext extends SessionProfile {
+  resolvedConfig: ResolvedConfig
   readonly projectDir: string
   readonly log: Logger
   readonly toast: ToastFn
   readonly sessionManager: SessionManager
-  readonly skillResolver: SkillResolver
-  readonly initialSkills: ParsedSkill[]
-  readonly initialFormattedContent: string
-  readonly initialTokensUsed: number
+  readonly nestedConfigs: NestedConfigResolver
+  /** Triggers declared in skill frontmatter, already merged into each profile's config. */
+  skillTriggers: SkillTriggerMaps
+  /**
+   * Returns the profile a session runs with. The first call that passes an
+   * agent name binds the session to the profile named after that agent, if
+   * any; otherwise the session uses the context's own config.
+   */
+  readonly getSessionProfile: (sessionId: string, agent?: string) => SessionProfile
 }
 
 export interface ConditionalSkill {
+  /** The skill to load. */
   skill: string
+  /** Every check listed must pass. */
   if: ConditionCheck
 }
 
 export interface ConditionCheck {
+  /** Path relative to the project that must exist. */
   fileExists?: string
+  /** Package that must be a (dev or peer) dependency in package.json. */
   packageHasDependency?: string
+  /** Environment variable that must be set. */
   envVar?: string
 }
 
+/** Triggers declared in a skill's frontmatter, merged into the config's trigger maps. */
+export interface SkillTriggers {
+  /** Extensions, as in `fileTypeSkills`. */
+  fileTypes?: string[]
+  /** Glob patterns relative to the project, as in `pathPatterns`. */
+  paths?: string[]
+  /** Message keywords, as in `contentTriggers`. */
+  keywords?: string[]
+  /** Agent names, as in `agentSkills`. */
+  agents?: string[]
+}
+
+/** The config maps that trigger skills during a session. */
+export type SkillTriggerMaps = Required<
+  Pick<PreloadSkillsConfig, "fileTypeSkills" | "pathPatterns" | "contentTriggers" | "agentSkills">
+>
+
+/** A file bundled with a skill, read on demand rather than injected. */
+export interface SkillResource {
+  /** Path relative to the skill directory. */
+  path: string
+  description?: string
+}
+
+/** Where a skill was found: a project location, a home-directory location or an npm package. */
+export type SkillSource = "project" | "user" | "package"
+
 export interface ParsedSkill {
   name: string
   description: string
   summary?: string
+  /** A shorter version of the content, from the `condensed` frontmatter key. */
+  condensed?: string
+  /** The tier `content` was stepped down to; absent for the full skill. */
+  tier?: SkillTier
+  /** The layer the skill was found in. */
+  source?: SkillSource
+  /** The npm package the skill comes from, for `package` skills. */
+  packageName?: string
+  /** License named in the frontmatter. */
+  license?: string
+  /** Tools the skill expects to use, from the `allowed-tools` frontmatter key. */
+  allowedTools?: string[]
+  /** Skills that must be injected before this one. */
+  requires?: string[]
+  /** Skills that must not be loaded together with this one. */
+  conflicts?: string[]
+  /** Files in the skill directory listed after the skill, to be read on demand. */
+  resources?: SkillResource[]
+  /** Files pulled in with `{{include ...}}`, so they can be watched. */
+  includedFiles?: string[]
+  /** Frontmatter priority, used to resolve conflicts. Defaults to 0. */
+  priority?: number
+  /** Triggers the skill declares for itself in its frontmatter. */
+  triggers?: SkillTriggers
+  /** Frontmatter keys without a dedicated field, as parsed. */
+  extra?: Record<string, unknown>
+  /** The heading sections `content` was trimmed to, for a skill loaded in part. */
+  sections?: string[]
   content: string
   filePath: string
+  /** Tokens by the length heuristic; sessions count again with their model's tokenizer. */
   tokenCount: number
 }
 
 export interface SessionState {
+  /** The agent profile the session is bound to, if any. */
+  profile?: string
+  /** The agent of the latest message. */
+  agent?: string
+  /** The model of the latest LLM call, as `provider/model`. */
+  model?: string
+  /** Extensions of the files the session's tools have touched. */
+  fileTypes?: Set<string>
   initialSkillsInjected: boolean
   loadedSkills: Set<string>
+  /** The heading sections loaded of skills loaded in part; other loaded skills are whole. */
+  loadedSections?: Map<string, Set<string>>
+  /** The tier of skills loaded below `full` to fit the budget. */
+  skillTiers?: Map<string, SkillTier>
+  /** Skills unloaded because a conflicting skill replaced them. */
+  displacedSkills?: Set<string>
   totalTokensUsed: number
 }
 
+/** Counts tokens for a model family: built in, or registered from the `tokenizers` option. */
+export interface Tokenizer {
+  id: string
+  count(text: string): number
+}
+
+/** What a session knows about itself, to decide which conditional sections of a skill apply. */
+export interface SectionContext {
+  projectDir: string
+  agent?: string
+  /** The model as `provider/model`, which also picks the tokenizer skills are counted with. */
+  model?: string
+  /** Extensions of the files the session has touched, e.g. `.ts`. */
+  fileTypes?: string[]
+}
+
 export interface SkillUsageStats {
   skillName: string
   loadCount: number
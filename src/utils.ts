@@ -31,6 +31,26 @@ export function matchesAnyPattern(
   return patterns.some((pattern) => matchGlobPattern(filePath, pattern))
 }
 
+/**
+ * The project's `dependencies`, `devDependencies` and `peerDependencies`,
+ * by package name; empty when there is no readable package.json.
+ */
+export function readProjectDependencies(projectDir: string): Record<string, unknown> {
+  const packageJsonPath = join(projectDir, "package.json")
+  if (!existsSync(packageJsonPath)) return {}
+
+  try {
+    const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf-8"))
+    return {
+      ...packageJson.dependencies,
+      ...packageJson.devDependencies,
+      ...packageJson.peerDependencies,
+    }
+  } catch {
+    return {}
+  }
+}
+
 export function checkCondition(
   condition: { fileExists?: string; packageHasDependency?: string; envVar?: string },
   projectDir: string
@@ -41,20 +61,7 @@ export function checkCondition(
   }
 
   if (condition.packageHasDependency) {
-    const packageJsonPath = join(projectDir, "package.json")
-    if (!existsSync(packageJsonPath)) return false
-
-    try {
-      const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf-8"))
-      const deps = {
-        ...packageJson.dependencies,
-        ...packageJson.devDependencies,
-        ...packageJson.peerDependencies,
-      }
-      if (!deps[condition.packageHasDependency]) return false
-    } catch {
-      return false
-    }
+    if (!readProjectDependencies(projectDir)[condition.packageHasDependency]) return false
   }
 
   if (condition.envVar) {
@@ -0,0 +1,101 @@
+import { watch, existsSync, type FSWatcher } from "node:fs"
+import { basename, dirname, join } from "node:path"
+
+interface WatchedDirectory {
+  watcher: FSWatcher
+  filenames: Set<string>
+}
+
+/**
+ * Watches individual files for changes and calls `onChange` once per burst of
+ * events. Files are watched through their parent directory so that editors
+ * which save by renaming a temp file, and files created after startup, are
+ * still noticed.
+ */
+export class FileWatcher {
+  private readonly directories = new Map<string, WatchedDirectory>()
+  private timer: ReturnType<typeof setTimeout> | undefined
+  private readonly changed = new Set<string>()
+
+  constructor(
+    private readonly onChange: (paths: string[]) => void,
+    private readonly debounceMs = 100
+  ) {}
+
+  /** Replaces the set of watched files. */
+  sync(paths: Iterable<string>): void {
+    const wanted = new Map<string, Set<string>>()
+    for (const path of paths) {
+      const dir = dirname(path)
+      if (!wanted.has(dir)) wanted.set(dir, new Set())
+      wanted.get(dir)!.add(basename(path))
+    }
+
+    for (const [dir, entry] of this.directories) {
+      if (!wanted.has(dir)) {
+        entry.watcher.close()
+        this.directories.delete(dir)
+      }
+    }
+
+    for (const [dir, filenames] of wanted) {
+      const existing = this.directories.get(dir)
+      if (existing) {
+        existing.filenames.clear()
+        for (const name of filenames) existing.filenames.add(name)
+      } else {
+        this.watchDirectory(dir, filenames)
+      }
+    }
+  }
+
+  /** Adds a single file to the watched set. */
+  add(path: string): void {
+    const dir = dirname(path)
+    const existing = this.directories.get(dir)
+    if (existing) {
+      existing.filenames.add(basename(path))
+    } else {
+      this.watchDirectory(dir, new Set([basename(path)]))
+    }
+  }
+
+  close(): void {
+    clearTimeout(this.timer)
+    for (const { watcher } of this.directories.values()) {
+      watcher.close()
+    }
+    this.directories.clear()
+  }
+
+  private watchDirectory(dir: string, filenames: Set<string>): void {
+    if (!existsSync(dir)) return
+
+    try {
+      const watcher = watch(dir, { persistent: false }, (_event, filename) => {
+        const name = filename?.toString()
+        if (name && filenames.has(name)) {
+          this.schedule(join(dir, name))
+        }
+      })
+      watcher.on("error", () => {
+        watcher.close()
+        this.directories.delete(dir)
+      })
+      this.directories.set(dir, { watcher, filenames })
+    } catch {
+      // The directory vanished or cannot be watched; it is retried on the next sync.
+    }
+  }
+
+  private schedule(path: string): void {
+    this.changed.add(path)
+    clearTimeout(this.timer)
+    this.timer = setTimeout(() => {
+      const paths = [...this.changed]
+      this.changed.clear()
+      this.onChange(paths)
+    }, this.debounceMs)
+    this.timer.unref?.()
+  }
+}
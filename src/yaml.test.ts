@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest"
+import { parseYaml, YamlError } from "./yaml.js"
+
+describe("parseYaml", () => {
+  it("parses nested mappings and sequences", () => {
+    const result = parseYaml(`skills:
+  - a
+  - b
+groups:
+  frontend:
+    - react
+    - css
+conditionalSkills:
+  - skill: react
+    if:
+      packageHasDependency: react
+`)
+
+    expect(result).toEqual({
+      skills: ["a", "b"],
+      groups: { frontend: ["react", "css"] },
+      conditionalSkills: [{ skill: "react", if: { packageHasDependency: "react" } }],
+    })
+  })
+
+  it("parses sequences at the same indentation as their key", () => {
+    expect(parseYaml("skills:\n- a\n- b\ndebug: true")).toEqual({ skills: ["a", "b"], debug: true })
+  })
+
+  it("parses flow collections", () => {
+    expect(parseYaml('a: [x, "y, z", 3]\nb: { c: d, e: [1, 2] }')).toEqual({
+      a: ["x", "y, z", 3],
+      b: { c: "d", e: [1, 2] },
+    })
+  })
+
+  it("resolves plain scalars", () => {
+    expect(parseYaml("a: 42\nb: 1.5\nc: true\nd: false\ne: null\nf: ~\ng: hello world\nh:")).toEqual({
+      a: 42,
+      b: 1.5,
+      c: true,
+      d: false,
+      e: null,
+      f: null,
+      g: "hello world",
+      h: null,
+    })
+  })
+
+  it("parses quoted scalars", () => {
+    expect(parseYaml(`a: "line\\nbreak \\"q\\""\nb: 'it''s'\n"c d": 'x: y'`)).toEqual({
+      a: 'line\nbreak "q"',
+      b: "it's",
+      "c d": "x: y",
+    })
+  })
+
+  it("strips comments outside of quotes", () => {
+    expect(parseYaml("# header\na: b # note\nc: 'd # kept'\nurl: http://x.y/#anchor")).toEqual({
+      a: "b",
+      c: "d # kept",
+      url: "http://x.y/#anchor",
+    })
+  })
+
+  it("joins multi-line plain scalars", () => {
+    expect(parseYaml("description: A long\n  description here\nname: x")).toEqual({
+      description: "A long description here",
+      name: "x",
+    })
+  })
+
+  it("parses literal block scalars", () => {
+    expect(parseYaml("a: |\n  one\n  # two\n\n  three\nb: x")).toEqual({
+      a: "one\n# two\n\nthree\n",
+      b: "x",
+    })
+  })
+
+  it("parses folded block scalars with chomping indicators", () => {
+    expect(parseYaml("a: >-\n  one\n  two\n\n  three\n")).toEqual({ a: "one two\nthree" })
+    expect(parseYaml("a: |+\n  one\n\nb: x")).toEqual({ a: "one\n\n", b: "x" })
+  })
+
+  it("ignores a leading document marker", () => {
+    expect(parseYaml("---\na: b")).toEqual({ a: "b" })
+  })
+
+  it("returns null for empty documents", () => {
+    expect(parseYaml("")).toBeNull()
+    expect(parseYaml("# only a comment\n")).toBeNull()
+  })
+
+  it("reports errors with line numbers", () => {
+    const cases: Array<[string, string, number]> = [
+      ["a: 1\n  b: 2", "Unexpected indentation", 2],
+      ["a: 1\na: 2", 'Duplicate key "a"', 2],
+      ["a:\n\t- b", "Tabs are not allowed for indentation", 2],
+      ['a: "open', "Unterminated quoted string", 1],
+      ["a: [1, 2", "Unterminated flow collection", 1],
+    ]
+
+    for (const [text, reason, line] of cases) {
+      try {
+        parseYaml(text)
+        expect.fail(`expected an error for ${JSON.stringify(text)}`)
+      } catch (error) {
+        expect(error).toBeInstanceOf(YamlError)
+        expect((error as YamlError).reason).toBe(reason)
+        expect((error as YamlError).line).toBe(line)
+      }
+    }
+  })
+
+  it("does not let keys modify the prototype", () => {
+    const result = parseYaml("__proto__:\n  polluted: true") as Record<string, unknown>
+
+    expect(Object.hasOwn(result, "__proto__")).toBe(true)
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+  })
+})
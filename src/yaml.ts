@@ -0,0 +1,445 @@
+/**
+ * A small YAML parser covering the subset used by config files and SKILL.md
+ * frontmatter: block mappings and sequences, flow collections, quoted and
+ * plain scalars (including multi-line plain scalars), block scalars (`|`,
+ * `>`, with chomping indicators) and comments. Anchors, aliases, tags and
+ * multiple documents are not supported.
+ */
+
+export class YamlError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly line: number
+  ) {
+    super(`${reason} (line ${line})`)
+    this.name = "YamlError"
+  }
+}
+
+interface Line {
+  number: number
+  indent: number
+  text: string
+  tabIndented: boolean
+}
+
+function isQuoteStart(text: string, index: number): boolean {
+  if (index === 0) return true
+  return /[\s[{,]/.test(text[index - 1]!)
+}
+
+function stripComment(text: string): string {
+  let quote: string | null = null
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!
+    if (quote) {
+      if (quote === '"' && ch === "\\") {
+        i++
+      } else if (ch === quote) {
+        if (quote === "'" && text[i + 1] === "'") {
+          i++
+        } else {
+          quote = null
+        }
+      }
+      continue
+    }
+    if ((ch === '"' || ch === "'") && isQuoteStart(text, i)) {
+      quote = ch
+    } else if (ch === "#" && (i === 0 || /\s/.test(text[i - 1]!))) {
+      return text.slice(0, i)
+    }
+  }
+  return text
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === "-" || text.startsWith("- ")
+}
+
+function findQuoteEnd(text: string, start: number, lineNumber: number): number {
+  const quote = text[start]
+  for (let i = start + 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === "\\") {
+      i++
+    } else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i++
+      } else {
+        return i
+      }
+    }
+  }
+  throw new YamlError("Unterminated quoted string", lineNumber)
+}
+
+/** Returns the index of the colon ending a mapping key, or -1 if the line is not a key. */
+function findMappingColon(text: string, lineNumber: number): number {
+  if (text.startsWith("[") || text.startsWith("{") || isSequenceItem(text)) return -1
+
+  let start = 0
+  if (text.startsWith('"') || text.startsWith("'")) {
+    start = findQuoteEnd(text, 0, lineNumber) + 1
+    const after = text.slice(start).match(/^\s*:(\s|$)/)
+    return after ? start + after[0].indexOf(":") : -1
+  }
+
+  const match = /:(\s|$)/.exec(text.slice(start))
+  return match ? start + match.index : -1
+}
+
+const ESCAPES: Record<string, string> = {
+  "0": "\0",
+  a: "\x07",
+  b: "\b",
+  t: "\t",
+  "\t": "\t",
+  n: "\n",
+  v: "\v",
+  f: "\f",
+  r: "\r",
+  e: "\x1b",
+  " ": " ",
+  '"': '"',
+  "/": "/",
+  "\\": "\\",
+}
+
+function parseQuoted(text: string, start: number, lineNumber: number): { value: string; end: number } {
+  const end = findQuoteEnd(text, start, lineNumber)
+  const body = text.slice(start + 1, end)
+
+  if (text[start] === "'") {
+    return { value: body.replace(/''/g, "'"), end: end + 1 }
+  }
+
+  const value = body.replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|.)/g, (_, esc: string) => {
+    if (esc.length > 1) return String.fromCodePoint(parseInt(esc.slice(1), 16))
+    const replacement = ESCAPES[esc]
+    if (replacement === undefined) {
+      throw new YamlError(`Unknown escape sequence "\\${esc}"`, lineNumber)
+    }
+    return replacement
+  })
+  return { value, end: end + 1 }
+}
+
+function resolvePlainScalar(text: string): unknown {
+  if (text === "" || text === "~" || /^(null|Null|NULL)$/.test(text)) return null
+  if (/^(true|True|TRUE)$/.test(text)) return true
+  if (/^(false|False|FALSE)$/.test(text)) return false
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text)
+  if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text, 16)
+  return text
+}
+
+function setEntry(target: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true })
+}
+
+function parseFlow(text: string, lineNumber: number): unknown {
+  let i = 0
+
+  const skipSpaces = () => {
+    while (text[i] === " " || text[i] === "\t") i++
+  }
+
+  const parsePlain = (stopAtColon: boolean): string => {
+    const start = i
+    while (i < text.length && !",[]{}".includes(text[i]!)) {
+      if (stopAtColon && text[i] === ":" && /[\s,}]|^$/.test(text[i + 1] ?? "")) break
+      i++
+    }
+    return text.slice(start, i).trim()
+  }
+
+  const parseScalar = (isKey: boolean): unknown => {
+    if (text[i] === '"' || text[i] === "'") {
+      const { value, end } = parseQuoted(text, i, lineNumber)
+      i = end
+      return value
+    }
+    const plain = parsePlain(isKey)
+    return isKey ? plain : resolvePlainScalar(plain)
+  }
+
+  const expectSeparator = (close: string, kind: string) => {
+    skipSpaces()
+    if (text[i] === ",") {
+      i++
+    } else if (i >= text.length) {
+      throw new YamlError("Unterminated flow collection", lineNumber)
+    } else if (text[i] !== close) {
+      throw new YamlError(`Expected "," or "${close}" in flow ${kind}`, lineNumber)
+    }
+  }
+
+  const parseItem = (): unknown => {
+    skipSpaces()
+    if (text[i] === "[") {
+      i++
+      const items: unknown[] = []
+      for (;;) {
+        skipSpaces()
+        if (text[i] === "]") {
+          i++
+          return items
+        }
+        items.push(parseItem())
+        expectSeparator("]", "sequence")
+      }
+    }
+
+    if (text[i] === "{") {
+      i++
+      const entries: Record<string, unknown> = {}
+      for (;;) {
+        skipSpaces()
+        if (text[i] === "}") {
+          i++
+          return entries
+        }
+        const key = String(parseScalar(true))
+        skipSpaces()
+        let value: unknown = null
+        if (text[i] === ":") {
+          i++
+          value = parseItem()
+        }
+        setEntry(entries, key, value)
+        expectSeparator("}", "mapping")
+      }
+    }
+
+    if (i >= text.length) {
+      throw new YamlError("Unterminated flow collection", lineNumber)
+    }
+    return parseScalar(false)
+  }
+
+  const value = parseItem()
+  skipSpaces()
+  if (i < text.length) {
+    throw new YamlError(`Unexpected "${text.slice(i)}" after flow collection`, lineNumber)
+  }
+  return value
+}
+
+function foldLines(lines: string[]): string {
+  let result = ""
+  let pendingBreaks = 0
+  let previous: string | null = null
+
+  for (const line of lines) {
+    if (line === "") {
+      pendingBreaks++
+      continue
+    }
+    if (previous === null || pendingBreaks > 0) {
+      result += "\n".repeat(pendingBreaks) + line
+    } else if (/^\s/.test(line) || /^\s/.test(previous)) {
+      result += "\n" + line
+    } else {
+      result += " " + line
+    }
+    pendingBreaks = 0
+    previous = line
+  }
+  return result
+}
+
+class YamlParser {
+  private readonly rawLines: string[]
+  private readonly lines: Line[] = []
+  private pos = 0
+
+  constructor(text: string) {
+    this.rawLines = text.replace(/\r\n?/g, "\n").split("\n")
+
+    this.rawLines.forEach((raw, i) => {
+      const indent = raw.length - raw.trimStart().length
+      const text = stripComment(raw.slice(indent)).trimEnd()
+      if (text === "") return
+      this.lines.push({
+        number: i + 1,
+        indent: raw.slice(0, indent).replace(/\t/g, "").length,
+        text,
+        tabIndented: raw.slice(0, indent).includes("\t"),
+      })
+    })
+
+    if (this.lines[0]?.indent === 0 && this.lines[0].text === "---") {
+      this.pos++
+    }
+  }
+
+  parse(): unknown {
+    const first = this.peek()
+    if (!first) return null
+
+    const value = this.parseNode()
+    const rest = this.peek()
+    if (rest && !(rest.indent === 0 && rest.text === "...")) {
+      throw new YamlError("Unexpected content after document", rest.number)
+    }
+    return value
+  }
+
+  private peek(): Line | undefined {
+    return this.lines[this.pos]
+  }
+
+  private checkIndent(line: Line): void {
+    if (line.tabIndented) {
+      throw new YamlError("Tabs are not allowed for indentation", line.number)
+    }
+  }
+
+  private parseNode(): unknown {
+    const line = this.peek()!
+    this.checkIndent(line)
+
+    if (isSequenceItem(line.text)) return this.parseSequence(line.indent)
+    if (findMappingColon(line.text, line.number) !== -1) return this.parseMapping(line.indent)
+
+    this.pos++
+    return this.parseValue(line.text, line, line.indent - 1)
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+
+    for (let line = this.peek(); line && line.indent >= indent; line = this.peek()) {
+      this.checkIndent(line)
+      if (line.indent > indent) {
+        throw new YamlError("Unexpected indentation", line.number)
+      }
+
+      const colon = findMappingColon(line.text, line.number)
+      if (colon === -1) {
+        throw new YamlError('Expected a "key: value" pair', line.number)
+      }
+
+      const rawKey = line.text.slice(0, colon).trim()
+      const key =
+        rawKey.startsWith('"') || rawKey.startsWith("'")
+          ? parseQuoted(rawKey, 0, line.number).value
+          : rawKey
+      if (Object.hasOwn(result, key)) {
+        throw new YamlError(`Duplicate key "${key}"`, line.number)
+      }
+
+      this.pos++
+      setEntry(result, key, this.parseMappingValue(line.text.slice(colon + 1).trim(), line, indent))
+    }
+
+    return result
+  }
+
+  private parseMappingValue(rest: string, line: Line, indent: number): unknown {
+    if (rest !== "") return this.parseValue(rest, line, indent)
+
+    const next = this.peek()
+    if (next && next.indent > indent) return this.parseNode()
+    if (next && next.indent === indent && isSequenceItem(next.text)) return this.parseSequence(indent)
+    return null
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const result: unknown[] = []
+
+    for (let line = this.peek(); line && line.indent >= indent; line = this.peek()) {
+      this.checkIndent(line)
+      if (line.indent > indent) {
+        throw new YamlError("Unexpected indentation", line.number)
+      }
+      if (!isSequenceItem(line.text)) break
+
+      const rest = line.text.slice(1).trimStart()
+      if (rest === "") {
+        this.pos++
+        const next = this.peek()
+        result.push(next && next.indent > indent ? this.parseNode() : null)
+      } else if (isSequenceItem(rest) || findMappingColon(rest, line.number) !== -1) {
+        // A nested collection that starts on the same line as its dash.
+        const itemIndent = line.indent + line.text.length - rest.length
+        this.lines[this.pos] = { ...line, indent: itemIndent, text: rest }
+        result.push(this.parseNode())
+      } else {
+        this.pos++
+        result.push(this.parseValue(rest, line, indent))
+      }
+    }
+
+    return result
+  }
+
+  private parseValue(text: string, line: Line, parentIndent: number): unknown {
+    if (/^[|>]([-+]?[1-9]?|[1-9][-+])$/.test(text)) {
+      return this.parseBlockScalar(text, line, parentIndent)
+    }
+    if (text.startsWith("[") || text.startsWith("{")) {
+      return parseFlow(text, line.number)
+    }
+    if (text.startsWith('"') || text.startsWith("'")) {
+      const { value, end } = parseQuoted(text, 0, line.number)
+      if (text.slice(end).trim() !== "") {
+        throw new YamlError(`Unexpected "${text.slice(end).trim()}" after quoted string`, line.number)
+      }
+      return value
+    }
+
+    const parts = [text]
+    for (let next = this.peek(); next && next.indent > parentIndent; next = this.peek()) {
+      if (findMappingColon(next.text, next.number) !== -1 || isSequenceItem(next.text)) {
+        throw new YamlError("Unexpected indentation", next.number)
+      }
+      parts.push(next.text)
+      this.pos++
+    }
+    return resolvePlainScalar(parts.join(" "))
+  }
+
+  private parseBlockScalar(header: string, line: Line, parentIndent: number): string {
+    const chomping = header.includes("-") ? "strip" : header.includes("+") ? "keep" : "clip"
+    const explicitIndent = header.match(/[1-9]/)
+    let blockIndent = explicitIndent ? Math.max(parentIndent, 0) + Number(explicitIndent[0]) : -1
+
+    const content: string[] = []
+    let index = line.number
+    for (; index < this.rawLines.length; index++) {
+      const raw = this.rawLines[index]!
+      if (raw.trim() === "") {
+        content.push("")
+        continue
+      }
+      const lineIndent = raw.length - raw.trimStart().length
+      if (blockIndent === -1) {
+        if (lineIndent <= parentIndent) break
+        blockIndent = lineIndent
+      }
+      if (lineIndent < blockIndent) break
+      content.push(raw.slice(blockIndent))
+    }
+
+    while (this.peek() && this.peek()!.number <= index) {
+      this.pos++
+    }
+
+    let trailing = 0
+    while (content.length > 0 && content[content.length - 1] === "") {
+      content.pop()
+      trailing++
+    }
+
+    const body = header.startsWith(">") ? foldLines(content) : content.join("\n")
+    if (body === "" || chomping === "strip") return body
+    if (chomping === "clip") return `${body}\n`
+    return `${body}\n${"\n".repeat(trailing)}`
+  }
+}
+
+export function parseYaml(text: string): unknown {
+  return new YamlParser(text).parse()
+}
@@ -1,3 +1,4 @@
+import { copyFileSync } from "node:fs"
 import { defineConfig } from "tsup"
 
 export default defineConfig({
@@ -10,4 +11,8 @@ export default defineConfig({
   outDir: "dist",
   splitting: false,
   treeshake: true,
+  // Ship the config schema so config files can point `$schema` at it.
+  async onSuccess() {
+    copyFileSync("src/config/schema.json", "dist/schema.json")
+  },
 })